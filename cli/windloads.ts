@@ -0,0 +1,303 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { getApplicabilityWarnings } from "../src/lib/applicability";
+import { analyzeBuilding, type BuildingAnalysis } from "../src/lib/building";
+import { getEnclosureClassifications } from "../src/lib/enclosure";
+import { convertFormUnits, DEFAULT_FORM, getBuildingInput, readFormInput, validateForm, type FormState } from "../src/lib/form";
+import { DEFAULT_PROJECT_NAME, parseProject, ProjectFormatError } from "../src/lib/project";
+import { formatQuantity, getUnitLabel, type Quantity, type UnitSystem } from "../src/lib/units";
+import { ASCE_EDITIONS } from "../src/lib/wind";
+
+// Headless calculator: reads a saved project and/or input flags, prints the velocity pressure
+// profile and MWFRS surface pressures, and exits non-zero when the input is rejected.
+
+const USAGE = `Usage: windloads [project.json] [options]
+
+Inputs are read from the project file, if given, and then overridden by the options.
+Speeds and lengths are in the project's unit system unless --units is given.
+
+Options:
+  --speed <V>             Basic wind speed, mph or m/s
+  --exposure <B|C|D>      Exposure category
+  --height <h>            Eave height; sets the story height, and the story count unless --stories is given
+  --stories <n>           Number of stories
+  --story-height <h>      Story height
+  --length <L>            Plan dimension L
+  --width <B>             Plan dimension B
+  --roof-slope <deg>      Roof slope in degrees; 0 for a flat roof
+  --wall-height <z>       Height at which windward wall pressures are evaluated (default mid-height with --height)
+  --edition <7-10|7-16|7-22>
+  --risk-category <I|II|III|IV>
+  --enclosure <open|partially_open|partially_enclosed|enclosed>
+  --kd <Kd>               Directionality factor
+  --units <imperial|metric>
+  --format <table|json>   Output format (default table)
+  -h, --help              Show this message
+
+Exit status: 0 on success, 1 when the input or project file is invalid, 2 on a usage error.`;
+
+// Typical story height assumed when only a building height is given, per unit system
+const DEFAULT_STORY_HEIGHT: Record<UnitSystem, number> = { imperial: 10, metric: 3 };
+
+class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UsageError";
+	}
+}
+
+class InputError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InputError";
+	}
+}
+
+type OutputFormat = "table" | "json";
+
+interface CliOptions {
+	form: FormState;
+	projectName: string;
+	format: OutputFormat;
+	help: boolean;
+}
+
+function main(argv: string[]): number {
+	try {
+		const options = readOptions(argv);
+		if (options.help) {
+			console.log(USAGE);
+			return 0;
+		}
+		const errors = Object.values(validateForm(options.form));
+		if (errors.length > 0) {
+			throw new InputError(`Input is outside the calculator's accepted ranges:\n${errors.map((message) => `  ${message}`).join("\n")}`);
+		}
+		const engineForm = convertFormUnits(options.form, "imperial");
+		const unitSystem = options.form.unitSystem;
+		const { analysis, warnings } = analyzeForm(engineForm, unitSystem);
+		console.log(options.format === "json"
+			? JSON.stringify(toJson(options.projectName, engineForm, analysis, warnings, unitSystem), null, 2)
+			: formatReport(options.projectName, engineForm, analysis, warnings, unitSystem));
+		return 0;
+	} catch (err) {
+		if (err instanceof UsageError) {
+			console.error(`windloads: ${err.message}\n\n${USAGE}`);
+			return 2;
+		}
+		if (err instanceof InputError || err instanceof ProjectFormatError) {
+			console.error(`windloads: ${err.message}`);
+			return 1;
+		}
+		throw err;
+	}
+}
+
+// Analysis of validated input. The engine failing on it anyway is reported as rejected input
+// rather than a crash.
+function analyzeForm(engineForm: FormState, unitSystem: UnitSystem): { analysis: BuildingAnalysis; warnings: string[] } {
+	try {
+		const input = getBuildingInput(engineForm, unitSystem);
+		const analysis = analyzeBuilding(input);
+		return { analysis, warnings: getApplicabilityWarnings(input, analysis, engineForm.procedure, unitSystem).map((w) => w.message) };
+	} catch (err) {
+		throw new InputError(`Input could not be analyzed: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+function readOptions(argv: string[]): CliOptions {
+	let parsed: ReturnType<typeof parseCommandLine>;
+	try {
+		parsed = parseCommandLine(argv);
+	} catch (err) {
+		throw new UsageError(err instanceof Error ? err.message : String(err));
+	}
+	const { values, positionals } = parsed;
+	if (positionals.length > 1) throw new UsageError("Only one project file can be given");
+	const format = values.format ?? "table";
+	if (format !== "table" && format !== "json") throw new UsageError(`Unknown output format "${format}"`);
+	if (values.help) return { form: DEFAULT_FORM, projectName: DEFAULT_PROJECT_NAME, format, help: true };
+
+	let form = DEFAULT_FORM;
+	let projectName = DEFAULT_PROJECT_NAME;
+	if (positionals.length === 1) {
+		const project = parseProject(readProjectFile(positionals[0]), readFormInput);
+		form = project.input;
+		projectName = project.name;
+	}
+
+	// Switch units first so the other options are read in the requested system
+	if (values.units !== undefined) {
+		const unitSystem = parseChoice("--units", values.units, ["imperial", "metric"] as const);
+		form = { ...convertFormUnits(form, unitSystem), unitSystem };
+	}
+	if (values.edition !== undefined) form = { ...form, edition: parseChoice("--edition", values.edition, ASCE_EDITIONS) };
+	if (values.exposure !== undefined) form = { ...form, exposure: parseChoice("--exposure", values.exposure, ["B", "C", "D"] as const), determineExposure: false };
+	if (values["risk-category"] !== undefined) form = { ...form, riskCategory: parseChoice("--risk-category", values["risk-category"], ["I", "II", "III", "IV"] as const) };
+	if (values.enclosure !== undefined) {
+		form = { ...form, buildingEnclosure: parseChoice("--enclosure", values.enclosure, getEnclosureClassifications(form.edition)), classifyFromOpenings: false };
+	}
+	if (values.speed !== undefined) form = { ...form, windSpeed: parseNumber("--speed", values.speed) };
+	if (values.kd !== undefined) form = { ...form, directionalityFactor: parseNumber("--kd", values.kd) };
+	if (values.length !== undefined) form = { ...form, roofLength: parseNumber("--length", values.length) };
+	if (values.width !== undefined) form = { ...form, roofWidth: parseNumber("--width", values.width) };
+	// Stories given on the command line are uniform and replace a project's story table
+	if (values.stories !== undefined) form = { ...form, numStories: parseNumber("--stories", values.stories), useStoryTable: false };
+	if (values["story-height"] !== undefined) form = { ...form, storyHeight: parseNumber("--story-height", values["story-height"]), useStoryTable: false };
+	if (values["roof-slope"] !== undefined) {
+		const slope = parseNumber("--roof-slope", values["roof-slope"]);
+		form = Number(slope) === 0 ? { ...form, roofType: "flat" } : { ...form, roofType: "sloped", roofSlopeDeg: slope };
+	}
+	if (values.height !== undefined) {
+		const height = Number(parseNumber("--height", values.height));
+		const stories = values.stories !== undefined
+			? Number(form.numStories)
+			: Math.max(1, Math.round(height / DEFAULT_STORY_HEIGHT[form.unitSystem]));
+		form = {
+			...form,
+			numStories: String(stories),
+			storyHeight: String(height / stories),
+			useStoryTable: false,
+			wallEvaluationHeight: String(height / 2),
+			meanRoofHeight: "",
+		};
+	}
+	if (values["wall-height"] !== undefined) form = { ...form, wallEvaluationHeight: parseNumber("--wall-height", values["wall-height"]) };
+
+	return { form, projectName, format, help: false };
+}
+
+function parseCommandLine(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			speed: { type: "string" },
+			exposure: { type: "string" },
+			height: { type: "string" },
+			stories: { type: "string" },
+			"story-height": { type: "string" },
+			length: { type: "string" },
+			width: { type: "string" },
+			"roof-slope": { type: "string" },
+			"wall-height": { type: "string" },
+			edition: { type: "string" },
+			"risk-category": { type: "string" },
+			enclosure: { type: "string" },
+			kd: { type: "string" },
+			units: { type: "string" },
+			format: { type: "string" },
+			help: { type: "boolean", short: "h" },
+		},
+	});
+}
+
+function readProjectFile(path: string): string {
+	try {
+		return readFileSync(path, "utf8");
+	} catch (err) {
+		throw new InputError(`Cannot read project file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+function parseChoice<T extends string>(flag: string, value: string, choices: readonly T[]): T {
+	const match = choices.find((choice) => choice === value);
+	if (match === undefined) throw new InputError(`${flag} must be one of ${choices.join(", ")}`);
+	return match;
+}
+
+// Numbers stay strings in the form, as if typed into it; ranges are checked with the rest of the form
+function parseNumber(flag: string, value: string): string {
+	if (value.trim() === "" || !isFinite(Number(value))) throw new InputError(`${flag} must be a number`);
+	return value.trim();
+}
+
+// Engine value in the display system as a number, rounded as in the web report
+function toDisplay(value: number, quantity: Quantity, system: UnitSystem): number {
+	return Number(formatQuantity(value, quantity, system));
+}
+
+function toJson(projectName: string, form: FormState, analysis: BuildingAnalysis, warnings: string[], system: UnitSystem) {
+	return {
+		project: projectName,
+		edition: form.edition,
+		units: Object.fromEntries((["speed", "length", "pressure", "force", "moment"] as const).map((q) => [q, getUnitLabel(q, system)])),
+		windSpeed: toDisplay(Number(form.windSpeed), "speed", system),
+		riskCategory: form.riskCategory,
+		exposure: analysis.exposure,
+		meanRoofHeight: toDisplay(analysis.meanRoofHeightFt, "length", system),
+		qh: toDisplay(analysis.velocityPressure.qh.velocityPressurePsf, "pressure", system),
+		gcpi: analysis.enclosure.gcpi,
+		warnings,
+		velocityPressure: analysis.velocityPressure.stories.map((s) => ({
+			story: s.story,
+			z: toDisplay(s.heightFt, "length", system),
+			kz: s.kz,
+			kzt: s.kzt,
+			qz: toDisplay(s.qzPsf, "pressure", system),
+		})),
+		directions: analysis.directions.map((d) => ({
+			direction: d.direction,
+			label: d.label,
+			exposure: d.exposure,
+			gustFactor: d.gust.gustFactor,
+			surfaces: d.surfaces.map((s) => ({
+				surface: s.surface,
+				cpCase: s.cpCase,
+				cp: s.cp,
+				positiveGcpi: toDisplay(s.positiveGcpiPsf, "pressure", system),
+				negativeGcpi: toDisplay(s.negativeGcpiPsf, "pressure", system),
+			})),
+			baseShear: toDisplay(d.storyForces.baseShearKips, "force", system),
+			overturningMoment: toDisplay(d.storyForces.overturningMomentKipFt, "moment", system),
+		})),
+	};
+}
+
+function formatReport(projectName: string, form: FormState, analysis: BuildingAnalysis, warnings: string[], system: UnitSystem): string {
+	const unit = (q: Quantity) => getUnitLabel(q, system);
+	const lines = [
+		projectName,
+		`ASCE ${form.edition}, V = ${formatQuantity(Number(form.windSpeed), "speed", system)} ${unit("speed")}, Risk Category ${form.riskCategory}, Exposure ${analysis.exposure}`,
+		`h = ${formatQuantity(analysis.meanRoofHeightFt, "length", system)} ${unit("length")}, qh = ${formatQuantity(analysis.velocityPressure.qh.velocityPressurePsf, "pressure", system)} ${unit("pressure")}, GCpi = ±${analysis.enclosure.gcpi.positive}`,
+		"",
+		"Velocity pressure profile",
+		formatTable(
+			["Story", `z (${unit("length")})`, "Kz", "Kzt", `qz (${unit("pressure")})`],
+			[...analysis.velocityPressure.stories].reverse().map((s) => [
+				String(s.story),
+				formatQuantity(s.heightFt, "length", system),
+				s.kz.toFixed(3),
+				s.kzt.toFixed(3),
+				formatQuantity(s.qzPsf, "pressure", system),
+			]),
+		),
+	];
+	for (const d of analysis.directions) {
+		lines.push(
+			"",
+			`${d.label}, Exposure ${d.exposure}, G = ${d.gust.gustFactor.toFixed(3)}`,
+			formatTable(
+				["Surface", "Cp", `p +GCpi (${unit("pressure")})`, `p -GCpi (${unit("pressure")})`],
+				d.surfaces.map((s) => [
+					s.cpCase ? `${s.surface}, Case ${s.cpCase}` : s.surface,
+					s.cp.toFixed(3),
+					formatQuantity(s.positiveGcpiPsf, "pressure", system),
+					formatQuantity(s.negativeGcpiPsf, "pressure", system),
+				]),
+			),
+			`Base shear ${formatQuantity(d.storyForces.baseShearKips, "force", system)} ${unit("force")}, overturning moment ${formatQuantity(d.storyForces.overturningMomentKipFt, "moment", system)} ${unit("moment")}`,
+		);
+	}
+	if (warnings.length > 0) lines.push("", "Applicability warnings", ...warnings.map((message) => `- ${message}`));
+	return lines.join("\n");
+}
+
+// Plain-text table: first column left-aligned, the rest right-aligned
+function formatTable(headers: string[], rows: string[][]): string {
+	const widths = headers.map((header, col) => Math.max(header.length, ...rows.map((row) => row[col].length)));
+	const formatRow = (row: string[]) => row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join("  ");
+	return [formatRow(headers), widths.map((w) => "-".repeat(w)).join("  "), ...rows.map(formatRow)].join("\n");
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import {
+	BATCH_RESULT_COLUMNS,
+	getBatchResultsTable,
+	getBatchTemplate,
+	parseBatchCsv,
+	type BatchResult,
+	type BatchRow,
+	type BatchWorkerMessage,
+	type BatchWorkerRequest,
+} from "../lib/batch";
+import { downloadFile, getFileName } from "../lib/download";
+import { formatCsv } from "../lib/export";
+import type { FormState } from "../lib/form";
+import { formatQuantity, getUnitLabel } from "../lib/units";
+
+interface BatchPanelProps {
+	// Inputs for columns a file leaves out; results are shown in its unit system
+	form: FormState;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "right" as const };
+
+export default function BatchPanel({ form }: BatchPanelProps) {
+	const [fileName, setFileName] = useState<string | null>(null);
+	const [ignoredColumns, setIgnoredColumns] = useState<string[]>([]);
+	const [results, setResults] = useState<BatchResult[] | null>(null);
+	const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+	const [message, setMessage] = useState<string | null>(null);
+	const workerRef = useRef<Worker | null>(null);
+	const units = form.unitSystem;
+
+	// Stop a running batch when the panel closes
+	useEffect(() => () => workerRef.current?.terminate(), []);
+
+	function run(rows: BatchRow[]) {
+		workerRef.current?.terminate();
+		const worker = new Worker(new URL("../lib/batch.worker.ts", import.meta.url), { type: "module" });
+		workerRef.current = worker;
+		setResults(null);
+		setProgress({ done: 0, total: rows.length });
+		worker.onmessage = (e: MessageEvent<BatchWorkerMessage>) => {
+			if (e.data.type === "progress") {
+				setProgress({ done: e.data.done, total: e.data.total });
+				return;
+			}
+			setResults(e.data.results);
+			setProgress(null);
+			worker.terminate();
+			workerRef.current = null;
+		};
+		worker.onerror = (e) => {
+			setMessage(`Batch failed: ${e.message}`);
+			setProgress(null);
+			worker.terminate();
+			workerRef.current = null;
+		};
+		const request: BatchWorkerRequest = { rows };
+		worker.postMessage(request);
+	}
+
+	async function handleOpen(e: ChangeEvent<HTMLInputElement>) {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		const batch = parseBatchCsv(await file.text(), form);
+		setFileName(file.name);
+		setIgnoredColumns(batch.ignoredColumns);
+		if (batch.rows.length === 0) {
+			setMessage(`${file.name} has no building rows`);
+			setResults(null);
+			return;
+		}
+		setMessage(null);
+		run(batch.rows);
+	}
+
+	const failed = results?.filter((r) => !r.metrics).length ?? 0;
+
+	return (
+		<div style={{ display: "grid", gap: 16 }}>
+			<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+				<h3 style={{ margin: 0 }}>Portfolio Batch</h3>
+				<div className="form-info">
+					One building per row. Columns are named after the calculator inputs (see the template); any input a file leaves out is taken from the form, in {units === "metric" ? "SI" : "US customary"} units unless the row has a unitSystem column.
+				</div>
+				<div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+					<label>
+						<input type="file" accept=".csv,text/csv" onChange={(e) => void handleOpen(e)} style={{ display: "none" }} />
+						<span role="button" style={{ cursor: "pointer", textDecoration: "underline" }}>Open CSV…</span>
+					</label>
+					<button type="button" onClick={() => downloadFile("batch_template.csv", formatCsv(getBatchTemplate(form)), "text/csv;charset=utf-8")}>
+						Download template
+					</button>
+					{results && fileName && (
+						<button
+							type="button"
+							onClick={() => downloadFile(getFileName(`${fileName.replace(/\.csv$/i, "")} results`, "csv"), formatCsv(getBatchResultsTable(results, units)), "text/csv;charset=utf-8")}
+						>
+							Download results CSV
+						</button>
+					)}
+				</div>
+				{progress && <div className="form-info">Analyzing {fileName}: {progress.done} of {progress.total} buildings…</div>}
+				{results && <div className="form-info">{fileName}: {results.length} buildings, {failed === 0 ? "all analyzed" : `${failed} with errors`}</div>}
+				{ignoredColumns.length > 0 && <div className="form-info">Ignored columns: {ignoredColumns.join(", ")}</div>}
+				{message && <div style={{ color: "crimson" }}>{message}</div>}
+			</div>
+			{results && (
+				<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left", overflowX: "auto" }}>
+					<h3 style={{ margin: 0 }}>Building Summary</h3>
+					<table style={{ borderCollapse: "collapse", marginTop: 8, width: "100%", fontSize: 13 }}>
+						<thead>
+							<tr>
+								<th style={cellStyle}>Line</th>
+								<th style={{ ...cellStyle, textAlign: "left" }}>Name</th>
+								{BATCH_RESULT_COLUMNS.map((c) => (
+									<th key={c.key} style={cellStyle}>{c.label} ({getUnitLabel(c.quantity, units)})</th>
+								))}
+							</tr>
+						</thead>
+						<tbody>
+							{results.map(({ line, name, metrics, errors }) => (
+								<tr key={line}>
+									<td style={cellStyle}>{line}</td>
+									<td style={{ ...cellStyle, textAlign: "left" }}>{name}</td>
+									{metrics
+										? BATCH_RESULT_COLUMNS.map((c) => <td key={c.key} style={cellStyle}>{formatQuantity(metrics[c.key], c.quantity, units)}</td>)
+										: <td style={{ ...cellStyle, textAlign: "left", color: "crimson" }} colSpan={BATCH_RESULT_COLUMNS.length}>{errors.join("; ")}</td>}
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,143 @@
+import type { ReactNode } from "react";
+import type { StoryVelocityPressure, SurfaceResult } from "../lib/building";
+import type { StoryForceResult } from "../lib/storyForces";
+import { getTraceEquation, getTraceSubstitution, getTraceUnits, type TraceEntry } from "../lib/trace";
+import { formatQuantity, getUnitLabel, type UnitSystem } from "../lib/units";
+import { roundTo, type AsceEdition } from "../lib/wind";
+import StoryForceTable from "./StoryForceTable";
+
+interface CalculationReportProps {
+	projectName: string;
+	edition: AsceEdition;
+	unitSystem: UnitSystem;
+	inputs: Array<{ label: string; value: string | number }>;
+	trace: TraceEntry[];
+	storyPressures: StoryVelocityPressure[];
+	directions: Array<{ label: string; surfaces: SurfaceResult[]; storyForces: StoryForceResult }>;
+	notes: string[];
+	// Diagrams rendered at the end of the report
+	children?: ReactNode;
+}
+
+export default function CalculationReport({ projectName, edition, unitSystem, inputs, trace, storyPressures, directions, notes, children }: CalculationReportProps) {
+	const pressureUnit = getUnitLabel("pressure", unitSystem);
+	return (
+		<div className="report" style={{ textAlign: "left", display: "grid", gap: 16 }}>
+			<div>
+				<h2 style={{ marginBottom: 4 }}>{projectName}</h2>
+				<div>Wind load calculation per ASCE {edition} &middot; {new Date().toLocaleDateString()}</div>
+				<button type="button" className="no-print" style={{ marginTop: 8 }} onClick={() => window.print()}>Print / save as PDF</button>
+			</div>
+
+			<section>
+				<h3 style={{ margin: 0 }}>Inputs</h3>
+				<table>
+					<tbody>
+						{inputs.map((item) => (
+							<tr key={item.label}>
+								<th>{item.label}</th>
+								<td>{String(item.value)}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</section>
+
+			<section>
+				<h3 style={{ margin: 0 }}>Derivation</h3>
+				<table>
+					<thead>
+						<tr>
+							<th>Symbol</th>
+							<th>Description</th>
+							<th>Reference</th>
+							<th>Equation</th>
+							<th>Value</th>
+						</tr>
+					</thead>
+					<tbody>
+						{trace.map((entry) => {
+							const substitution = getTraceSubstitution(entry, unitSystem);
+							return (
+								<tr key={entry.symbol}>
+									<td>{entry.symbol}</td>
+									<td>{entry.description}</td>
+									<td>{entry.clause}</td>
+									<td style={{ fontFamily: "monospace" }}>
+										<div>{getTraceEquation(entry, unitSystem)}</div>
+										{substitution && <div>{substitution}</div>}
+									</td>
+									<td>{entry.quantity ? `${formatQuantity(entry.value, entry.quantity, unitSystem)} ${getTraceUnits(entry, unitSystem)}` : entry.value}</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			</section>
+
+			<section>
+				<h3 style={{ margin: 0 }}>Velocity Pressure by Story</h3>
+				<table>
+					<thead>
+						<tr>
+							<th>Story</th>
+							<th>z ({getUnitLabel("length", unitSystem)})</th>
+							<th>Kz</th>
+							<th>Kzt</th>
+							<th>qz ({pressureUnit})</th>
+						</tr>
+					</thead>
+					<tbody>
+						{[...storyPressures].reverse().map((s) => (
+							<tr key={s.story}>
+								<td>{s.story}</td>
+								<td>{formatQuantity(s.heightFt, "length", unitSystem)}</td>
+								<td>{s.kz.toFixed(3)}</td>
+								<td>{s.kzt.toFixed(3)}</td>
+								<td>{formatQuantity(s.qzPsf, "pressure", unitSystem)}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</section>
+
+			{directions.map((d) => (
+				<section key={d.label} style={{ display: "grid", gap: 8 }}>
+					<h3 style={{ margin: 0 }}>{d.label}</h3>
+					<table>
+						<thead>
+							<tr>
+								<th>Surface</th>
+								<th>Cp</th>
+								<th>p with +GCpi ({pressureUnit})</th>
+								<th>p with -GCpi ({pressureUnit})</th>
+							</tr>
+						</thead>
+						<tbody>
+							{d.surfaces.map((s) => (
+								<tr key={`${s.surface} ${s.cpCase}`}>
+									<td>{s.surface}{s.cpCase !== null ? `, Case ${s.cpCase}` : ""}</td>
+									<td>{roundTo(s.cp, 3)}</td>
+									<td>{formatQuantity(s.positiveGcpiPsf, "pressure", unitSystem)}</td>
+									<td>{formatQuantity(s.negativeGcpiPsf, "pressure", unitSystem)}</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+					<StoryForceTable title={`Story Forces, ${d.label}`} result={d.storyForces} unitSystem={unitSystem} />
+				</section>
+			))}
+
+			<section>
+				<h3 style={{ margin: 0 }}>Notes</h3>
+				<ul>
+					{notes.map((note, idx) => (
+						<li key={idx}>{note}</li>
+					))}
+				</ul>
+			</section>
+
+			{children}
+		</div>
+	);
+}
@@ -0,0 +1,44 @@
+import type { EnvelopeRow } from "../lib/envelope";
+import { formatWithUnit, type UnitSystem } from "../lib/units";
+
+interface EnvelopeTableProps {
+	title: string;
+	rows: EnvelopeRow[];
+	unitSystem: UnitSystem;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "left" as const };
+
+function formatPressure(value: number | null, unitSystem: UnitSystem): string {
+	return value === null ? "—" : formatWithUnit(value, "pressure", unitSystem);
+}
+
+export default function EnvelopeTable({ title, rows, unitSystem }: EnvelopeTableProps) {
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8 }}>
+			<h3 style={{ margin: 0 }}>{title}</h3>
+			<table style={{ borderCollapse: "collapse", marginTop: 8, width: "100%", fontSize: 14 }}>
+				<thead>
+					<tr>
+						<th style={cellStyle}>Surface</th>
+						<th style={cellStyle}>Max positive</th>
+						<th style={cellStyle}>Governing direction</th>
+						<th style={cellStyle}>Max negative</th>
+						<th style={cellStyle}>Governing direction</th>
+					</tr>
+				</thead>
+				<tbody>
+					{rows.map((row) => (
+						<tr key={row.surface}>
+							<td style={cellStyle}>{row.surface}</td>
+							<td style={cellStyle}>{formatPressure(row.maxPositivePsf, unitSystem)}</td>
+							<td style={cellStyle}>{row.positiveDirection ?? "—"}</td>
+							<td style={cellStyle}>{formatPressure(row.maxNegativePsf, unitSystem)}</td>
+							<td style={cellStyle}>{row.negativeDirection ?? "—"}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
@@ -0,0 +1,35 @@
+import type { BuildingAnalysis } from "../lib/building";
+import { downloadFile, getFileName } from "../lib/download";
+import { formatCsv, getExportTables } from "../lib/export";
+import type { UnitSystem } from "../lib/units";
+import { createXlsxWorkbook, XLSX_MIME_TYPE } from "../lib/xlsx";
+
+interface ExportPanelProps {
+	projectName: string;
+	analysis: BuildingAnalysis;
+	unitSystem: UnitSystem;
+}
+
+export default function ExportPanel({ projectName, analysis, unitSystem }: ExportPanelProps) {
+	const tables = getExportTables(analysis, unitSystem);
+
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+			<h3 style={{ margin: 0 }}>Export</h3>
+			<div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+				{tables.map((table) => (
+					<button
+						key={table.name}
+						type="button"
+						onClick={() => downloadFile(getFileName(`${projectName} ${table.name}`, "csv"), formatCsv(table), "text/csv;charset=utf-8")}
+					>
+						{table.name} (CSV)
+					</button>
+				))}
+				<button type="button" onClick={() => downloadFile(getFileName(projectName, "xlsx"), createXlsxWorkbook(tables), XLSX_MIME_TYPE)}>
+					All tables (Excel workbook)
+				</button>
+			</div>
+		</div>
+	);
+}
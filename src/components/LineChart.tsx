@@ -0,0 +1,80 @@
+import { CHART_COLORS, getTicks } from "../lib/chart";
+
+export interface LineChartSeries {
+	name: string;
+	points: Array<{ x: number; y: number }>;
+}
+
+interface LineChartProps {
+	title: string;
+	xLabel: string;
+	yLabel: string;
+	series: LineChartSeries[];
+	// Labels for categorical x values; numeric ticks are generated when omitted
+	xTicks?: Array<{ x: number; label: string }>;
+}
+
+const WIDTH = 560;
+const HEIGHT = 300;
+const MARGIN = { top: 16, right: 16, bottom: 44, left: 64 };
+
+export default function LineChart({ title, xLabel, yLabel, series, xTicks }: LineChartProps) {
+	const points = series.flatMap((s) => s.points);
+	if (points.length === 0) return null;
+	const xValues = [...points.map((p) => p.x), ...(xTicks ?? []).map((t) => t.x)];
+	const [xMin, xMax] = padRange(Math.min(...xValues), Math.max(...xValues));
+	const yTicks = getTicks(Math.min(0, ...points.map((p) => p.y)), Math.max(0, ...points.map((p) => p.y)));
+	const yMin = yTicks[0];
+	const yMax = yTicks[yTicks.length - 1];
+	const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+	const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+	const sx = (x: number) => MARGIN.left + (x - xMin) / (xMax - xMin) * plotWidth;
+	const sy = (y: number) => MARGIN.top + (yMax - y) / (yMax - yMin) * plotHeight;
+	const ticksX = xTicks ?? getTicks(xMin, xMax).filter((x) => x >= xMin && x <= xMax).map((x) => ({ x, label: String(x) }));
+
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+			<h3 style={{ margin: 0 }}>{title}</h3>
+			<svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", maxWidth: WIDTH, marginTop: 8 }} role="img" aria-label={title}>
+				{yTicks.map((y) => (
+					<g key={y}>
+						<line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={sy(y)} y2={sy(y)} stroke={y === 0 ? "#999" : "#eee"} />
+						<text x={MARGIN.left - 6} y={sy(y) + 4} fontSize={11} textAnchor="end">{y}</text>
+					</g>
+				))}
+				{ticksX.map((t) => (
+					<text key={t.x} x={sx(t.x)} y={HEIGHT - MARGIN.bottom + 16} fontSize={11} textAnchor="middle">{t.label}</text>
+				))}
+				<line x1={MARGIN.left} x2={MARGIN.left} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#333" />
+				<line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={HEIGHT - MARGIN.bottom} y2={HEIGHT - MARGIN.bottom} stroke="#333" />
+				<text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 8} fontSize={12} textAnchor="middle">{xLabel}</text>
+				<text transform={`translate(14 ${MARGIN.top + plotHeight / 2}) rotate(-90)`} fontSize={12} textAnchor="middle">{yLabel}</text>
+				{series.map((s, idx) => {
+					const color = CHART_COLORS[idx % CHART_COLORS.length];
+					return (
+						<g key={s.name}>
+							<polyline fill="none" stroke={color} strokeWidth={2} points={s.points.map((p) => `${sx(p.x)},${sy(p.y)}`).join(" ")} />
+							{s.points.map((p) => <circle key={p.x} cx={sx(p.x)} cy={sy(p.y)} r={3} fill={color} />)}
+						</g>
+					);
+				})}
+			</svg>
+			{series.length > 1 && (
+				<div style={{ display: "flex", gap: 12, flexWrap: "wrap", fontSize: 13 }}>
+					{series.map((s, idx) => (
+						<span key={s.name}>
+							<span style={{ display: "inline-block", width: 12, height: 3, marginRight: 4, verticalAlign: "middle", background: CHART_COLORS[idx % CHART_COLORS.length] }} />
+							{s.name}
+						</span>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+// Half a step of space either side of categorical or single-valued axes
+function padRange(min: number, max: number): [number, number] {
+	if (min === max) return [min - 1, max + 1];
+	return Number.isInteger(min) && Number.isInteger(max) && max - min <= 3 ? [min - 0.5, max + 0.5] : [min, max];
+}
@@ -0,0 +1,51 @@
+import type { LoadCaseResult } from "../lib/loadCases";
+import { formatQuantity, formatWithUnit, getUnitLabel, type UnitSystem } from "../lib/units";
+
+interface LoadCaseTableProps {
+	title: string;
+	cases: LoadCaseResult[];
+	unitSystem: UnitSystem;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "right" as const };
+
+export default function LoadCaseTable({ title, cases, unitSystem }: LoadCaseTableProps) {
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+			<h3 style={{ margin: 0 }}>{title}</h3>
+			{cases.map((lc) => (
+				<details key={lc.id} style={{ marginTop: 8 }}>
+					<summary>
+						{lc.description}: Vx = {formatWithUnit(lc.baseShearXKips, "force", unitSystem)}, Vy = {formatWithUnit(lc.baseShearYKips, "force", unitSystem)}, MT = ±{formatWithUnit(lc.baseTorsionKipFt, "moment", unitSystem)}
+					</summary>
+					<table style={{ borderCollapse: "collapse", marginTop: 8, width: "100%", fontSize: 13 }}>
+						<thead>
+							<tr>
+								<th style={cellStyle}>Story</th>
+								<th style={cellStyle}>Fx ({getUnitLabel("force", unitSystem)})</th>
+								<th style={cellStyle}>Fy ({getUnitLabel("force", unitSystem)})</th>
+								<th style={cellStyle}>MT ({getUnitLabel("moment", unitSystem)})</th>
+								<th style={cellStyle}>Vx ({getUnitLabel("force", unitSystem)})</th>
+								<th style={cellStyle}>Vy ({getUnitLabel("force", unitSystem)})</th>
+								<th style={cellStyle}>ΣMT ({getUnitLabel("moment", unitSystem)})</th>
+							</tr>
+						</thead>
+						<tbody>
+							{[...lc.stories].reverse().map((s) => (
+								<tr key={s.story}>
+									<td style={cellStyle}>{s.story}</td>
+									<td style={cellStyle}>{formatQuantity(s.forceXKips, "force", unitSystem)}</td>
+									<td style={cellStyle}>{formatQuantity(s.forceYKips, "force", unitSystem)}</td>
+									<td style={cellStyle}>±{formatQuantity(s.torsionKipFt, "moment", unitSystem)}</td>
+									<td style={cellStyle}>{formatQuantity(s.shearXKips, "force", unitSystem)}</td>
+									<td style={cellStyle}>{formatQuantity(s.shearYKips, "force", unitSystem)}</td>
+									<td style={cellStyle}>±{formatQuantity(s.cumulativeTorsionKipFt, "moment", unitSystem)}</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</details>
+			))}
+		</div>
+	);
+}
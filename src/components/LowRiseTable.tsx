@@ -0,0 +1,57 @@
+import type { LowRiseResult } from "../lib/lowRise";
+import { formatQuantity, getUnitLabel, type UnitSystem } from "../lib/units";
+
+interface LowRiseTableProps {
+	title: string;
+	result: LowRiseResult;
+	unitSystem: UnitSystem;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "right" as const };
+
+function formatTorsional(unitSystem: UnitSystem, value?: [number, number]): string {
+	return value ? `${formatQuantity(value[0], "pressure", unitSystem)}, ${formatQuantity(value[1], "pressure", unitSystem)}` : "—";
+}
+
+export default function LowRiseTable({ title, result, unitSystem }: LowRiseTableProps) {
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+			<h3 style={{ margin: 0 }}>{title}</h3>
+			{!result.applicable && (
+				<div style={{ color: "crimson", marginTop: 8 }}>{result.notes[0]}</div>
+			)}
+			{result.cases.map((lc) => (
+				<div key={lc.id} style={{ marginTop: 12 }}>
+					<strong>{lc.description}</strong>
+					<table style={{ borderCollapse: "collapse", marginTop: 4, width: "100%", fontSize: 13 }}>
+						<thead>
+							<tr>
+								<th style={cellStyle}>Surface</th>
+								<th style={cellStyle}>GCpf</th>
+								<th style={cellStyle}>p, +GCpi ({getUnitLabel("pressure", unitSystem)})</th>
+								<th style={cellStyle}>p, -GCpi ({getUnitLabel("pressure", unitSystem)})</th>
+								<th style={cellStyle}>Torsional T zone ({getUnitLabel("pressure", unitSystem)})</th>
+							</tr>
+						</thead>
+						<tbody>
+							{lc.surfaces.map((s) => (
+								<tr key={s.surface}>
+									<td style={cellStyle}>{s.surface}</td>
+									<td style={cellStyle}>{s.gcpf.toFixed(2)}</td>
+									<td style={cellStyle}>{formatQuantity(s.pressuresPsf[0], "pressure", unitSystem)}</td>
+									<td style={cellStyle}>{formatQuantity(s.pressuresPsf[1], "pressure", unitSystem)}</td>
+									<td style={cellStyle}>{formatTorsional(unitSystem, s.torsionalPsf)}</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			))}
+			<ul>
+				{result.notes.slice(result.applicable ? 0 : 1).map((note) => (
+					<li key={note}>{note}</li>
+				))}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,116 @@
+import { CHART_COLORS, getTicks } from "../lib/chart";
+import type { ExposureProfile } from "../lib/profile";
+import { formatQuantity, getUnitLabel, type UnitSystem } from "../lib/units";
+import type { ExposureCategory } from "../lib/wind";
+
+interface ProfileChartProps {
+	profiles: ExposureProfile[];
+	// Exposure of the building, drawn heavier than the others
+	exposure: ExposureCategory;
+	// Leeward walls take qh at the mean roof height over their full height, psf
+	leewardQhPsf: number;
+	meanRoofHeightFt: number;
+	wallEvaluationHeightFt: number;
+	// Floor and eave elevations, ft
+	levelsFt: number[];
+	unitSystem: UnitSystem;
+}
+
+const WIDTH = 560;
+const HEIGHT = 380;
+const MARGIN = { top: 16, right: 16, bottom: 44, left: 64 };
+// The qz panel takes most of the width; the Kz panel shares its height axis
+const PANEL_GAP = 28;
+const KZ_PANEL_WIDTH = 140;
+const LEEWARD_COLOR = CHART_COLORS[4];
+const WALL_HEIGHT_COLOR = CHART_COLORS[3];
+
+// Elevation chart: qz and Kz against height for Exposures B, C and D
+export default function ProfileChart({ profiles, exposure, leewardQhPsf, meanRoofHeightFt, wallEvaluationHeightFt, levelsFt, unitSystem }: ProfileChartProps) {
+	const points = profiles.flatMap((p) => p.points);
+	if (points.length === 0) return null;
+	const length = (ft: number) => Number(formatQuantity(ft, "length", unitSystem));
+	const pressure = (psf: number) => Number(formatQuantity(psf, "pressure", unitSystem));
+
+	const zTicks = getTicks(0, Math.max(...points.map((p) => length(p.heightFt))));
+	const qTicks = getTicks(0, Math.max(pressure(leewardQhPsf), ...points.map((p) => pressure(p.qzPsf))));
+	const kzTicks = getTicks(0, Math.max(...points.map((p) => p.kz)));
+	const zMax = zTicks[zTicks.length - 1];
+	const qMax = qTicks[qTicks.length - 1];
+	const kzMax = kzTicks[kzTicks.length - 1];
+
+	const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+	const qLeft = MARGIN.left;
+	const qWidth = WIDTH - MARGIN.left - MARGIN.right - PANEL_GAP - KZ_PANEL_WIDTH;
+	const kzLeft = qLeft + qWidth + PANEL_GAP;
+	const right = kzLeft + KZ_PANEL_WIDTH;
+	const sz = (z: number) => MARGIN.top + (zMax - z) / zMax * plotHeight;
+	const sq = (q: number) => qLeft + q / qMax * qWidth;
+	const sk = (kz: number) => kzLeft + kz / kzMax * KZ_PANEL_WIDTH;
+	const bottom = HEIGHT - MARGIN.bottom;
+	const title = "Velocity Pressure Profile";
+
+	// Horizontal marker spanning both panels
+	const level = (z: number, stroke: string, dash: string) => (
+		<>
+			<line x1={qLeft} x2={qLeft + qWidth} y1={sz(z)} y2={sz(z)} stroke={stroke} strokeDasharray={dash} />
+			<line x1={kzLeft} x2={right} y1={sz(z)} y2={sz(z)} stroke={stroke} strokeDasharray={dash} />
+		</>
+	);
+
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+			<h3 style={{ margin: 0 }}>{title}</h3>
+			<svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", maxWidth: WIDTH, marginTop: 8 }} role="img" aria-label={title}>
+				{zTicks.map((z) => (
+					<g key={z}>
+						<line x1={qLeft} x2={qLeft + qWidth} y1={sz(z)} y2={sz(z)} stroke="#eee" />
+						<line x1={kzLeft} x2={right} y1={sz(z)} y2={sz(z)} stroke="#eee" />
+						<text x={qLeft - 6} y={sz(z) + 4} fontSize={11} textAnchor="end">{z}</text>
+					</g>
+				))}
+				{qTicks.map((q) => <text key={q} x={sq(q)} y={bottom + 16} fontSize={11} textAnchor="middle">{q}</text>)}
+				{kzTicks.map((kz) => <text key={kz} x={sk(kz)} y={bottom + 16} fontSize={11} textAnchor="middle">{kz}</text>)}
+				{levelsFt.map((z) => <g key={z}>{level(length(z), "#bbb", "2 3")}</g>)}
+				{level(length(wallEvaluationHeightFt), WALL_HEIGHT_COLOR, "6 3")}
+				<text x={qLeft + 4} y={sz(length(wallEvaluationHeightFt)) - 4} fontSize={11} fill={WALL_HEIGHT_COLOR}>Wall evaluation height</text>
+				<text x={qLeft + 4} y={sz(length(meanRoofHeightFt)) - 4} fontSize={11}>h</text>
+				{level(length(meanRoofHeightFt), "#333", "1 2")}
+				<line x1={qLeft} x2={qLeft} y1={MARGIN.top} y2={bottom} stroke="#333" />
+				<line x1={qLeft} x2={qLeft + qWidth} y1={bottom} y2={bottom} stroke="#333" />
+				<line x1={kzLeft} x2={kzLeft} y1={MARGIN.top} y2={bottom} stroke="#333" />
+				<line x1={kzLeft} x2={right} y1={bottom} y2={bottom} stroke="#333" />
+				<text x={qLeft + qWidth / 2} y={HEIGHT - 8} fontSize={12} textAnchor="middle">qz ({getUnitLabel("pressure", unitSystem)})</text>
+				<text x={kzLeft + KZ_PANEL_WIDTH / 2} y={HEIGHT - 8} fontSize={12} textAnchor="middle">Kz</text>
+				<text transform={`translate(14 ${MARGIN.top + plotHeight / 2}) rotate(-90)`} fontSize={12} textAnchor="middle">Height z ({getUnitLabel("length", unitSystem)})</text>
+				{profiles.map((p, idx) => {
+					const selected = p.exposure === exposure;
+					const style = { fill: "none", stroke: CHART_COLORS[idx % CHART_COLORS.length], strokeWidth: selected ? 2.5 : 1.25, opacity: selected ? 1 : 0.6 };
+					return (
+						<g key={p.exposure}>
+							<polyline {...style} points={p.points.map((pt) => `${sq(pressure(pt.qzPsf))},${sz(length(pt.heightFt))}`).join(" ")} />
+							<polyline {...style} points={p.points.map((pt) => `${sk(pt.kz)},${sz(length(pt.heightFt))}`).join(" ")} />
+						</g>
+					);
+				})}
+				<line x1={sq(pressure(leewardQhPsf))} x2={sq(pressure(leewardQhPsf))} y1={sz(0)} y2={sz(length(meanRoofHeightFt))} stroke={LEEWARD_COLOR} strokeWidth={2} strokeDasharray="4 3" />
+			</svg>
+			<div style={{ display: "flex", gap: 12, flexWrap: "wrap", fontSize: 13 }}>
+				{profiles.map((p, idx) => (
+					<span key={p.exposure}>
+						<span style={{ display: "inline-block", width: 12, height: 3, marginRight: 4, verticalAlign: "middle", background: CHART_COLORS[idx % CHART_COLORS.length] }} />
+						Exposure {p.exposure}{p.exposure === exposure ? " (building)" : ""}
+					</span>
+				))}
+				<span>
+					<span style={{ display: "inline-block", width: 12, height: 0, marginRight: 4, verticalAlign: "middle", borderTop: `2px dashed ${LEEWARD_COLOR}` }} />
+					Leeward qh = {formatQuantity(leewardQhPsf, "pressure", unitSystem)} {getUnitLabel("pressure", unitSystem)}
+				</span>
+				<span>
+					<span style={{ display: "inline-block", width: 12, height: 0, marginRight: 4, verticalAlign: "middle", borderTop: "1px dashed #bbb" }} />
+					Floor levels
+				</span>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { downloadFile, getFileName } from "../lib/download";
+import { createProjectFile, encodeProjectHash, loadRecentProjects, parseProject, saveRecentProject, serializeProject, type ProjectFile, type ProjectInputReader } from "../lib/project";
+
+interface ProjectPanelProps<T extends object> {
+	name: string;
+	onNameChange: (name: string) => void;
+	input: T;
+	// Checks loaded input and fills fields missing from older project files
+	readInput: ProjectInputReader<T>;
+	onLoad: (input: T) => void;
+}
+
+export default function ProjectPanel<T extends object>({ name, onNameChange, input, readInput, onLoad }: ProjectPanelProps<T>) {
+	const [recent, setRecent] = useState<ProjectFile<T>[]>(() => (typeof window === "undefined" ? [] : loadRecentProjects(readInput)));
+	const [message, setMessage] = useState<string | null>(null);
+
+	// Keep the address bar in step with the inputs so it is always a shareable link
+	useEffect(() => {
+		window.history.replaceState(null, "", encodeProjectHash(name, input));
+	}, [name, input]);
+
+	function load(project: ProjectFile<T>) {
+		onNameChange(project.name);
+		onLoad(project.input);
+		setMessage(`Loaded "${project.name}"`);
+	}
+
+	function handleSave() {
+		const project = createProjectFile(name, input);
+		downloadFile(getFileName(name, "json"), serializeProject(project), "application/json");
+		setRecent(saveRecentProject(project, readInput));
+		setMessage(`Saved "${name}"`);
+	}
+
+	async function handleOpen(e: ChangeEvent<HTMLInputElement>) {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		try {
+			const project = parseProject(await file.text(), readInput);
+			load(project);
+			setRecent(saveRecentProject(project, readInput));
+		} catch (err) {
+			setMessage(err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	async function handleCopyLink() {
+		try {
+			await navigator.clipboard.writeText(window.location.href);
+			setMessage("Link copied");
+		} catch {
+			setMessage("Copy the link from the address bar");
+		}
+	}
+
+	return (
+		<div className="form-section">
+			<div className="form-section-title">Project</div>
+			<div className="form-row">
+				<div className="form-label">Project name</div>
+				<input
+					className="form-input"
+					type="text"
+					value={name}
+					onChange={(e) => onNameChange(e.target.value)}
+				/>
+			</div>
+			<div className="form-row">
+				<div className="form-label">Project file</div>
+				<div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+					<button type="button" onClick={handleSave}>Save JSON</button>
+					<label>
+						<input type="file" accept=".json,application/json" onChange={(e) => void handleOpen(e)} style={{ display: "none" }} />
+						<span role="button" style={{ cursor: "pointer", textDecoration: "underline" }}>Open JSON…</span>
+					</label>
+					<button type="button" onClick={() => void handleCopyLink()}>Copy link</button>
+				</div>
+			</div>
+			{recent.length > 0 && (
+				<div className="form-row">
+					<div className="form-label">Recent projects</div>
+					<select
+						className="form-select"
+						value=""
+						onChange={(e) => e.target.value !== "" && load(recent[Number(e.target.value)])}
+					>
+						<option value="">Select…</option>
+						{recent.map((p, idx) => (
+							<option key={p.name} value={idx}>{p.name} ({new Date(p.savedAt).toLocaleString()})</option>
+						))}
+					</select>
+				</div>
+			)}
+			{message && <div className="form-info">{message}</div>}
+		</div>
+	);
+}
@@ -1,8 +1,12 @@
 import { useEffect, useRef, useState } from "react";
+import { formatWithUnit, type UnitSystem } from "../lib/units";
 
 interface DiagramSpec {
 	numStories: number;
-	storyHeightFt: number;
+	// Per story, ground story first
+	storyHeightsFt: number[];
+	// Plan dimension facing the wind
+	planWidthsFt: number[];
 	perStoryPressuresPsf: number[];
 }
 
@@ -11,9 +15,10 @@ interface ResultsCardProps {
 	items: Array<{ label: string; value: string | number }>;
 	diagram?: DiagramSpec;
 	showData?: boolean;
+	unitSystem?: UnitSystem;
 }
 
-export default function ResultsCard({ title, items, diagram, showData = true }: ResultsCardProps) {
+export default function ResultsCard({ title, items, diagram, showData = true, unitSystem = "imperial" }: ResultsCardProps) {
 	return (
 		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8 }}>
 			<h3 style={{ margin: 0 }}>{title}</h3>
@@ -35,15 +40,20 @@ export default function ResultsCard({ title, items, diagram, showData = true }:
 							{Array.from({ length: diagram.numStories }, (_, i) => {
 								const storyNum = diagram.numStories - i;
 								const pressure = diagram.perStoryPressuresPsf[storyNum - 1];
+								// Boxes are drawn to scale: the shortest story 20px high, the widest plan 100px wide
+								const heightPx = Math.min(60, 20 * diagram.storyHeightsFt[storyNum - 1] / Math.min(...diagram.storyHeightsFt));
+								const widthPx = 100 * diagram.planWidthsFt[storyNum - 1] / Math.max(...diagram.planWidthsFt);
 								return (
 									<div key={storyNum} style={{ display: "flex", alignItems: "center", marginBottom: 2 }}>
 										<div style={{ width: "60px", textAlign: "right", marginRight: "8px" }}>
 											Story {storyNum}:
 										</div>
-										<div style={{ width: "100px", height: "20px", border: "1px solid #666", backgroundColor: "#e0e0e0", marginRight: "8px" }}>
+										<div style={{ width: "100px", display: "flex", justifyContent: "center", marginRight: "8px" }}>
+											<div style={{ width: `${widthPx}px`, height: `${heightPx}px`, border: "1px solid #666", backgroundColor: "#e0e0e0" }}>
+											</div>
 										</div>
 										<div style={{ color: "#0066cc", fontWeight: "bold" }}>
-											→ {pressure.toFixed(1)} psf
+											→ {formatWithUnit(pressure, "pressure", unitSystem)}
 										</div>
 									</div>
 								);
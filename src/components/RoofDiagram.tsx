@@ -1,16 +1,29 @@
 import { useRef, useState, useEffect } from "react";
+import type { RoofCpZone } from "../lib/roof";
+import { formatWithUnit, type UnitSystem } from "../lib/units";
+
+// Fill and outline colours cycled across Figure 27.3-1 distance bands
+const BAND_COLORS = [
+	{ fill: "rgba(255, 100, 100, 0.3)", stroke: "#ff6464" },
+	{ fill: "rgba(255, 200, 100, 0.3)", stroke: "#ffc864" },
+	{ fill: "rgba(100, 255, 100, 0.3)", stroke: "#64ff64" },
+	{ fill: "rgba(100, 100, 255, 0.3)", stroke: "#6464ff" },
+];
 
 interface RoofDiagramProps {
 	roofType: "flat" | "sloped";
+	slopeAngleDeg: number;
+	roofZones: RoofCpZone[];
 	windSpeedMph: number;
 	exposure: string;
 	heightFt: number;
 	velocityPressurePsf: number;
 	roofLength: number;
 	roofWidth: number;
+	unitSystem: UnitSystem;
 }
 
-export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt, velocityPressurePsf, roofLength, roofWidth }: RoofDiagramProps) {
+export default function RoofDiagram({ roofType, slopeAngleDeg, roofZones, windSpeedMph, exposure, heightFt, velocityPressurePsf, roofLength, roofWidth, unitSystem }: RoofDiagramProps) {
 	const ref = useRef<HTMLDivElement | null>(null);
 	const [dataUrl, setDataUrl] = useState<string | null>(null);
 
@@ -19,13 +32,13 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 		const container = ref.current;
 		const width = Math.max(360, Math.ceil(container.clientWidth || 480));
 		const padding = 16;
-		const lineGap = 8;
 		const titleFont = "bold 16px system-ui, -apple-system, Segoe UI, Roboto, Arial";
 		const bodyFont = "12px system-ui, -apple-system, Segoe UI, Roboto, Arial";
 		
 		// Roof dimensions
 		const diagramWidth = 200;
 		const diagramHeight = roofType === "sloped" ? 60 : 20;
+		const roofHeight = diagramHeight;
 		const buildingHeight = 80;
 		const totalHeight = buildingHeight + diagramHeight + 40; // extra for labels
 		const height = padding * 2 + totalHeight;
@@ -49,7 +62,7 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 		ctx.font = titleFont;
 		ctx.fillStyle = "#111111";
 		ctx.textBaseline = "top";
-		ctx.fillText(`Roof Wind Loads - ${roofType === "flat" ? "Flat" : "Sloped"} Roof (L=${roofLength}ft, B=${roofWidth}ft)`, padding, padding);
+		ctx.fillText(`Roof Wind Loads - ${roofType === "flat" ? "Flat" : `Sloped ${slopeAngleDeg}°`} Roof (L=${formatWithUnit(roofLength, "length", unitSystem)}, B=${formatWithUnit(roofWidth, "length", unitSystem)})`, padding, padding);
 
 		// Building outline
 		const startX = (width - diagramWidth) / 2;
@@ -74,48 +87,30 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 			ctx.lineWidth = 2;
 			ctx.strokeRect(roofStartX, roofStartY, scaledL, scaledB);
 			
-			// Calculate zone widths based on ASCE 7-22
-			const zone1Width = Math.min(scaledB * 0.2, scaledL * 0.1); // 20% of B or 10% of L, whichever is smaller
-			const zone2Width = scaledB - zone1Width; // Remainder
-			
-			// Zone 1 (windward edge)
-			ctx.fillStyle = "rgba(255, 100, 100, 0.3)";
-			ctx.fillRect(roofStartX, roofStartY, zone1Width, scaledB);
-			ctx.strokeStyle = "#ff6464";
-			ctx.lineWidth = 1;
-			ctx.strokeRect(roofStartX, roofStartY, zone1Width, scaledB);
-			
-			// Zone 2 (middle)
-			ctx.fillStyle = "rgba(100, 255, 100, 0.3)";
-			ctx.fillRect(roofStartX + zone1Width, roofStartY, zone2Width, scaledB);
-			ctx.strokeStyle = "#64ff64";
-			ctx.lineWidth = 1;
-			ctx.strokeRect(roofStartX + zone1Width, roofStartY, zone2Width, scaledB);
-			
-			// Zone 3 (leeward edge)
-			ctx.fillStyle = "rgba(100, 100, 255, 0.3)";
-			ctx.fillRect(roofStartX + zone1Width + zone2Width, roofStartY, zone1Width, scaledB);
-			ctx.strokeStyle = "#6464ff";
-			ctx.lineWidth = 1;
-			ctx.strokeRect(roofStartX + zone1Width + zone2Width, roofStartY, zone1Width, scaledB);
-			
-			// Zone labels with actual dimensions
+			// Figure 27.3-1 distance bands measured from the windward edge along L
 			ctx.font = bodyFont;
-			ctx.fillStyle = "#333";
 			ctx.textAlign = "center";
-			ctx.fillText(`Zone 1 (${(zone1Width/scale).toFixed(1)}ft)`, roofStartX + zone1Width/2, roofStartY + scaledB/2);
-			ctx.fillText(`Zone 2 (${(zone2Width/scale).toFixed(1)}ft)`, roofStartX + zone1Width + zone2Width/2, roofStartY + scaledB/2);
-			ctx.fillText(`Zone 3 (${(zone1Width/scale).toFixed(1)}ft)`, roofStartX + zone1Width + zone2Width + zone1Width/2, roofStartY + scaledB/2);
+			roofZones.forEach((zone, idx) => {
+				if (zone.startFt === undefined || zone.endFt === undefined) return;
+				const bandX = roofStartX + zone.startFt * scale;
+				const bandWidth = (zone.endFt - zone.startFt) * scale;
+				const color = BAND_COLORS[idx % BAND_COLORS.length];
+				ctx.fillStyle = color.fill;
+				ctx.fillRect(bandX, roofStartY, bandWidth, scaledB);
+				ctx.strokeStyle = color.stroke;
+				ctx.lineWidth = 1;
+				ctx.strokeRect(bandX, roofStartY, bandWidth, scaledB);
+				ctx.fillStyle = "#333";
+				ctx.fillText(`${zone.label}`, bandX + bandWidth / 2, roofStartY + scaledB / 2);
+			});
 			
 		} else {
 			// Sloped roof
-			const slopeAngle = 30; // degrees
-			const roofSlope = Math.tan(slopeAngle * Math.PI / 180);
-			const roofTopX = startX + roofWidth / 2;
+			const roofTopX = startX + diagramWidth / 2;
 			const roofTopY = startY;
 			const roofLeftX = startX;
 			const roofLeftY = startY + roofHeight;
-			const roofRightX = startX + roofWidth;
+			const roofRightX = startX + diagramWidth;
 			const roofRightY = startY + roofHeight;
 			
 			// Roof outline
@@ -188,7 +183,7 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 			
 			// Zone 2 arrows (lower positive pressure)
 			for (let i = 0; i < 4; i++) {
-				const arrowX = startX + roofWidth * 0.2 + 10 + i * 20;
+				const arrowX = startX + diagramWidth * 0.2 + 10 + i * 20;
 				const arrowY = startY + zoneHeight / 2;
 				ctx.strokeStyle = "#64ff64";
 				ctx.lineWidth = 2;
@@ -207,7 +202,7 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 			
 			// Zone 3 arrows (negative pressure - outward)
 			for (let i = 0; i < 2; i++) {
-				const arrowX = startX + roofWidth * 0.8 + 10 + i * 15;
+				const arrowX = startX + diagramWidth * 0.8 + 10 + i * 15;
 				const arrowY = startY + zoneHeight / 2;
 				// Arrow pointing up (negative pressure)
 				ctx.strokeStyle = "#6464ff";
@@ -251,7 +246,7 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 			
 			// Leeward slope arrows (negative pressure - outward)
 			for (let i = 0; i < 3; i++) {
-				const arrowX = startX + roofWidth - 30 - i * 25;
+				const arrowX = startX + diagramWidth - 30 - i * 25;
 				const arrowY = startY + roofHeight - 10;
 				// Arrow pointing up and left (negative pressure)
 				ctx.strokeStyle = "#64c8ff";
@@ -273,7 +268,7 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 		// Pressure values
 		ctx.font = bodyFont;
 		ctx.fillStyle = "#333";
-		const pressureText = `qz = ${velocityPressurePsf.toFixed(2)} psf`;
+		const pressureText = `qz = ${formatWithUnit(velocityPressurePsf, "pressure", unitSystem)}`;
 		ctx.fillText(pressureText, startX, startY + roofHeight + buildingHeight + 20);
 
 		const png = canvas.toDataURL("image/png");
@@ -286,7 +281,7 @@ export default function RoofDiagram({ roofType, windSpeedMph, exposure, heightFt
 			void handleRenderImage();
 		});
 		return () => cancelAnimationFrame(raf);
-	}, [roofType, windSpeedMph, exposure, heightFt, velocityPressurePsf]);
+	}, [roofType, slopeAngleDeg, roofZones, windSpeedMph, exposure, heightFt, velocityPressurePsf, unitSystem]);
 
 	return (
 		<div>
@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { readFormInput, type FormState } from "../lib/form";
+import { loadRecentProjects } from "../lib/project";
+import { formatPercentChange, getScenarioMetrics, SCENARIO_METRICS } from "../lib/scenarios";
+import { formatQuantity, getUnitLabel, type UnitSystem } from "../lib/units";
+
+interface ScenarioComparisonProps {
+	projectName: string;
+	form: FormState;
+	// Display units; each scenario keeps the units it was entered in
+	unitSystem: UnitSystem;
+}
+
+interface Scenario {
+	name: string;
+	form: FormState;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "right" as const };
+
+export default function ScenarioComparison({ projectName, form, unitSystem }: ScenarioComparisonProps) {
+	const [scenarios, setScenarios] = useState<Scenario[]>([]);
+	const [recent] = useState(() => (typeof window === "undefined" ? [] : loadRecentProjects(readFormInput)));
+	const results = useMemo(() => scenarios.map((s) => getScenarioMetrics(s.form)), [scenarios]);
+	const baseline = results[0] ?? null;
+
+	function add(name: string, input: FormState) {
+		const taken = new Set(scenarios.map((s) => s.name));
+		let unique = name;
+		for (let n = 2; taken.has(unique); n++) unique = `${name} (${n})`;
+		setScenarios([...scenarios, { name: unique, form: input }]);
+	}
+
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left", overflowX: "auto" }}>
+			<h3 style={{ margin: 0 }}>Scenario Comparison</h3>
+			<div className="form-info">Scenarios are compared side by side; deltas are relative to the first.</div>
+			<div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+				<button type="button" onClick={() => add(projectName, form)}>Add current inputs</button>
+				{recent.length > 0 && (
+					<select
+						className="form-select"
+						style={{ width: "auto" }}
+						value=""
+						onChange={(e) => e.target.value !== "" && add(recent[Number(e.target.value)].name, recent[Number(e.target.value)].input)}
+					>
+						<option value="">Add saved project…</option>
+						{recent.map((p, idx) => <option key={p.name} value={idx}>{p.name}</option>)}
+					</select>
+				)}
+			</div>
+			{scenarios.length > 0 && (
+				<table style={{ borderCollapse: "collapse", marginTop: 8, width: "100%", fontSize: 13 }}>
+					<thead>
+						<tr>
+							<th style={{ ...cellStyle, textAlign: "left" }}>Result</th>
+							{scenarios.map((s, idx) => (
+								<th key={s.name} style={cellStyle}>
+									{s.name}{" "}
+									<button
+										type="button"
+										aria-label={`Remove ${s.name}`}
+										onClick={() => setScenarios(scenarios.filter((_, i) => i !== idx))}
+									>
+										×
+									</button>
+								</th>
+							))}
+						</tr>
+					</thead>
+					<tbody>
+						{SCENARIO_METRICS.map((m) => (
+							<tr key={m.key}>
+								<td style={{ ...cellStyle, textAlign: "left" }}>{m.label} ({getUnitLabel(m.quantity, unitSystem)})</td>
+								{results.map((metrics, idx) => (
+									<td key={scenarios[idx].name} style={cellStyle}>
+										{metrics
+											? `${formatQuantity(metrics[m.key], m.quantity, unitSystem)}${idx > 0 && baseline ? ` (${formatPercentChange(metrics[m.key], baseline[m.key])})` : ""}`
+											: "—"}
+									</td>
+								))}
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+			{results.some((metrics) => !metrics) && <div className="form-info">— input outside the calculator's accepted ranges</div>}
+		</div>
+	);
+}
@@ -0,0 +1,45 @@
+import type { StoryForceResult } from "../lib/storyForces";
+import { formatQuantity, formatWithUnit, getUnitLabel, type UnitSystem } from "../lib/units";
+
+interface StoryForceTableProps {
+	title: string;
+	result: StoryForceResult;
+	unitSystem: UnitSystem;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "right" as const };
+
+export default function StoryForceTable({ title, result, unitSystem }: StoryForceTableProps) {
+	return (
+		<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+			<h3 style={{ margin: 0 }}>{title}</h3>
+			<table style={{ borderCollapse: "collapse", marginTop: 8, width: "100%", fontSize: 13 }}>
+				<thead>
+					<tr>
+						<th style={cellStyle}>Story</th>
+						<th style={cellStyle}>z ({getUnitLabel("length", unitSystem)})</th>
+						<th style={cellStyle}>pW - pL ({getUnitLabel("pressure", unitSystem)})</th>
+						<th style={cellStyle}>F ({getUnitLabel("force", unitSystem)})</th>
+						<th style={cellStyle}>V ({getUnitLabel("force", unitSystem)})</th>
+						<th style={cellStyle}>OTM ({getUnitLabel("moment", unitSystem)})</th>
+					</tr>
+				</thead>
+				<tbody>
+					{[...result.stories].reverse().map((s) => (
+						<tr key={s.story}>
+							<td style={cellStyle}>{s.story}</td>
+							<td style={cellStyle}>{formatQuantity(s.elevationFt, "length", unitSystem)}</td>
+							<td style={cellStyle}>{formatQuantity(s.netPressurePsf, "pressure", unitSystem)}</td>
+							<td style={cellStyle}>{formatQuantity(s.forceKips, "force", unitSystem)}</td>
+							<td style={cellStyle}>{formatQuantity(s.shearKips, "force", unitSystem)}</td>
+							<td style={cellStyle}>{formatQuantity(s.overturningKipFt, "moment", unitSystem)}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+			<div style={{ marginTop: 8 }}>
+				<strong>Base shear:</strong> {formatWithUnit(result.baseShearKips, "force", unitSystem)} &nbsp; <strong>Overturning moment:</strong> {formatWithUnit(result.overturningMomentKipFt, "moment", unitSystem)}
+			</div>
+		</div>
+	);
+}
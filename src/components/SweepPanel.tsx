@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import type { FormState } from "../lib/form";
+import {
+	formatPercentChange,
+	getDefaultSweepAxis,
+	getScenarioMetrics,
+	getSweepParameterLabel,
+	getSweepSteps,
+	MAX_SWEEP_STEPS,
+	runSweep,
+	SCENARIO_METRICS,
+	SWEEP_PARAMETERS,
+	type ScenarioMetric,
+	type SweepAxis,
+	type SweepParameter,
+} from "../lib/scenarios";
+import { formatQuantity, getUnitLabel, type Quantity } from "../lib/units";
+import LineChart from "./LineChart";
+
+interface SweepPanelProps {
+	// Inputs the sweep varies; sweep ranges are entered in the same unit system
+	form: FormState;
+}
+
+const cellStyle = { border: "1px solid #ddd", padding: "4px 8px", textAlign: "right" as const };
+
+export default function SweepPanel({ form }: SweepPanelProps) {
+	const [primary, setPrimary] = useState<SweepAxis>(() => getDefaultSweepAxis(form, "windSpeed"));
+	const [secondary, setSecondary] = useState<SweepAxis | null>(null);
+	const [chartMetric, setChartMetric] = useState<ScenarioMetric>("baseShearKips");
+	const units = form.unitSystem;
+
+	const baseline = useMemo(() => getScenarioMetrics(form), [form]);
+	const primarySteps = useMemo(() => getSweepSteps(form, primary), [form, primary]);
+	const secondarySteps = useMemo(() => (secondary ? getSweepSteps(form, secondary) : null), [form, secondary]);
+	const points = useMemo(() => runSweep(form, primarySteps, secondarySteps), [form, primarySteps, secondarySteps]);
+
+	const metric = SCENARIO_METRICS.find((m) => m.key === chartMetric) ?? SCENARIO_METRICS[0];
+	const display = (value: number, quantity: Quantity) => Number(formatQuantity(value, quantity, units));
+	const categorical = primary.parameter === "exposure" || primary.parameter === "riskCategory";
+	const secondaryLabel = secondary ? getSweepParameterLabel(secondary.parameter, units) : "";
+	const series = (secondarySteps ?? [null]).map((step) => ({
+		name: step ? `${secondaryLabel} = ${step.label}` : metric.label,
+		points: points.flatMap((p) => (p.secondary === step && p.metrics ? [{ x: p.primary.x, y: display(p.metrics[chartMetric], metric.quantity) }] : [])),
+	}));
+
+	return (
+		<div style={{ display: "grid", gap: 16 }}>
+			<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left" }}>
+				<h3 style={{ margin: 0 }}>Parametric Sweep</h3>
+				<div className="form-info">
+					Every step runs the full analysis with one or two inputs changed from the current form. Deltas are relative to the current input.
+				</div>
+				<SweepAxisInputs
+					axis={primary}
+					form={form}
+					parameters={SWEEP_PARAMETERS}
+					onChange={(axis) => {
+						setPrimary(axis);
+						if (secondary?.parameter === axis.parameter) setSecondary(null);
+					}}
+				/>
+				<div className="form-row">
+					<div className="form-label">Second parameter</div>
+					<select
+						className="form-select"
+						value={secondary?.parameter ?? ""}
+						onChange={(e) => setSecondary(e.target.value === "" ? null : getDefaultSweepAxis(form, e.target.value as SweepParameter))}
+					>
+						<option value="">None</option>
+						{SWEEP_PARAMETERS.filter((p) => p !== primary.parameter).map((p) => (
+							<option key={p} value={p}>{getSweepParameterLabel(p, units)}</option>
+						))}
+					</select>
+				</div>
+				{secondary && (
+					<SweepAxisInputs
+						axis={secondary}
+						form={form}
+						parameters={[secondary.parameter]}
+						onChange={setSecondary}
+					/>
+				)}
+				<div className="form-row">
+					<div className="form-label">Chart</div>
+					<select className="form-select" value={chartMetric} onChange={(e) => setChartMetric(e.target.value as ScenarioMetric)}>
+						{SCENARIO_METRICS.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+					</select>
+				</div>
+			</div>
+			{points.length === 0 && <div style={{ color: "crimson" }}>Enter a start, end and number of steps for each swept parameter.</div>}
+			{points.length > 0 && (
+				<LineChart
+					title={`${metric.label} vs ${getSweepParameterLabel(primary.parameter, units)}`}
+					xLabel={getSweepParameterLabel(primary.parameter, units)}
+					yLabel={`${metric.label} (${getUnitLabel(metric.quantity, units)})`}
+					series={series}
+					xTicks={categorical ? primarySteps.map((s) => ({ x: s.x, label: s.label })) : undefined}
+				/>
+			)}
+			{points.length > 0 && (
+				<div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, textAlign: "left", overflowX: "auto" }}>
+					<h3 style={{ margin: 0 }}>Comparison</h3>
+					<table style={{ borderCollapse: "collapse", marginTop: 8, width: "100%", fontSize: 13 }}>
+						<thead>
+							<tr>
+								<th style={cellStyle}>{getSweepParameterLabel(primary.parameter, units)}</th>
+								{secondary && <th style={cellStyle}>{secondaryLabel}</th>}
+								{SCENARIO_METRICS.map((m) => (
+									<th key={m.key} style={cellStyle}>{m.label} ({getUnitLabel(m.quantity, units)})</th>
+								))}
+							</tr>
+						</thead>
+						<tbody>
+							{baseline && (
+								<tr style={{ fontStyle: "italic" }}>
+									<td style={cellStyle} colSpan={secondary ? 2 : 1}>Current input</td>
+									{SCENARIO_METRICS.map((m) => <td key={m.key} style={cellStyle}>{formatQuantity(baseline[m.key], m.quantity, units)}</td>)}
+								</tr>
+							)}
+							{points.map((p) => (
+								<tr key={`${p.secondary?.label ?? ""}|${p.primary.label}`}>
+									<td style={cellStyle}>{p.primary.label}</td>
+									{p.secondary && <td style={cellStyle}>{p.secondary.label}</td>}
+									{SCENARIO_METRICS.map((m) => (
+										<td key={m.key} style={cellStyle}>
+											{p.metrics
+												? `${formatQuantity(p.metrics[m.key], m.quantity, units)}${baseline ? ` (${formatPercentChange(p.metrics[m.key], baseline[m.key])})` : ""}`
+												: "—"}
+										</td>
+									))}
+								</tr>
+							))}
+						</tbody>
+					</table>
+					{points.some((p) => !p.metrics) && <div className="form-info">— input outside the calculator's accepted ranges</div>}
+				</div>
+			)}
+		</div>
+	);
+}
+
+interface SweepAxisInputsProps {
+	axis: SweepAxis;
+	form: FormState;
+	parameters: SweepParameter[];
+	onChange: (axis: SweepAxis) => void;
+}
+
+// Parameter choice and its values: a numeric range, or the wind speed for each risk category
+function SweepAxisInputs({ axis, form, parameters, onChange }: SweepAxisInputsProps) {
+	const units = form.unitSystem;
+	return (
+		<>
+			{parameters.length > 1 && (
+				<div className="form-row">
+					<div className="form-label">Sweep</div>
+					<select
+						className="form-select"
+						value={axis.parameter}
+						onChange={(e) => onChange(getDefaultSweepAxis(form, e.target.value as SweepParameter))}
+					>
+						{parameters.map((p) => <option key={p} value={p}>{getSweepParameterLabel(p, units)}</option>)}
+					</select>
+				</div>
+			)}
+			{(axis.parameter === "windSpeed" || axis.parameter === "numStories") && (
+				<div className="form-row">
+					<div className="form-label">From, to, steps (max {MAX_SWEEP_STEPS})</div>
+					<div style={{ display: "flex", gap: 4 }}>
+						<input className="form-input" type="number" value={axis.start} onChange={(e) => onChange({ ...axis, start: e.target.value })} />
+						<input className="form-input" type="number" value={axis.end} onChange={(e) => onChange({ ...axis, end: e.target.value })} />
+						<input className="form-input" type="number" value={axis.count} min={1} max={MAX_SWEEP_STEPS} step={1} onChange={(e) => onChange({ ...axis, count: e.target.value })} />
+					</div>
+				</div>
+			)}
+			{axis.parameter === "riskCategory" && (
+				<>
+					<div className="form-info">V for each Risk Category, from that category's wind speed map</div>
+					{(["I", "II", "III", "IV"] as const).map((category) => (
+						<div key={category} className="form-row">
+							<div className="form-label">Risk Category {category} V ({getUnitLabel("speed", units)})</div>
+							<input
+								className="form-input"
+								type="number"
+								value={axis.categorySpeeds[category]}
+								onChange={(e) => onChange({ ...axis, categorySpeeds: { ...axis.categorySpeeds, [category]: e.target.value } })}
+							/>
+						</div>
+					))}
+				</>
+			)}
+		</>
+	);
+}
@@ -1,253 +1,109 @@
 import { useMemo, useState } from "react";
-import { calculateVelocityPressure, type ExposureCategory, type RiskCategory, getGcpiEnclosed } from "../lib/wind";
+import { getApplicabilityWarnings } from "../lib/applicability";
+import { ASCE_EDITIONS, getKz, getVelocityPressureFormula, roundTo, type AsceEdition, type ExposureCategory, type RiskCategory } from "../lib/wind";
+import { analyzeBuilding, describeDirection, getBuildingEnclosure, getEaveHeight, getStoryGeometry, getDirectionExposure, getDirectionExposures, getInternalVolume, getMeanRoofHeight, getSiteExposure, WIND_DIRECTIONS, type DirectionResult } from "../lib/building";
+import { getRoofZones, MAX_ROOF_ZONE_SLOPE_DEG } from "../lib/cladding";
+import { describeEnclosure, getEnclosureClassifications, type EnclosureClassification } from "../lib/enclosure";
+import { describeSector, SECTOR_WIDTH_DEG, type SurfaceRoughness } from "../lib/exposure";
+import { convertFormUnits, DEFAULT_FORM, getBuildingInput, getEnclosureSurfaces, getGroundElevationFactor, getStoryTable, getTotalOpeningArea, readFormInput, resizeStoryTable, validateForm, type AnalysisProcedure, type FormState, type RoofType, type StoryFormRow } from "../lib/form";
+import { describeStructuralSystem, type StructuralSystem } from "../lib/gust";
+import type { LowRiseResult } from "../lib/lowRise";
+import type { LoadCaseResult } from "../lib/loadCases";
+import { getExposureProfiles, getStoryLevels } from "../lib/profile";
+import { decodeProjectHash, DEFAULT_PROJECT_NAME } from "../lib/project";
+import type { RidgeOrientation, RoofZonePressure } from "../lib/roof";
+import { calculateKzt, type CrestSide, type TopographicFeature, type TopographyInput } from "../lib/topography";
+import { getClause } from "../lib/trace";
+import { formatQuantity, formatWithUnit, getUnitLabel, type Quantity, type UnitSystem } from "../lib/units";
+import { calculateWallCp } from "../lib/walls";
+import BatchPanel from "./BatchPanel";
+import CalculationReport from "./CalculationReport";
+import EnvelopeTable from "./EnvelopeTable";
+import ExportPanel from "./ExportPanel";
+import LoadCaseTable from "./LoadCaseTable";
+import LowRiseTable from "./LowRiseTable";
+import ProfileChart from "./ProfileChart";
+import ProjectPanel from "./ProjectPanel";
 import ResultsCard from "./ResultsCard";
 import RoofDiagram from "./RoofDiagram";
+import ScenarioComparison from "./ScenarioComparison";
+import StoryForceTable from "./StoryForceTable";
+import SweepPanel from "./SweepPanel";
+import Tabs from "./Tabs";
 
-type RoofType = "flat" | "sloped";
-type BuildingEnclosure = "enclosed" | "partially_enclosed";
-
-// Calculate wall Cp values based on ASCE 7-22 Chapter 27 (MWFRS)
-function calculateWallCpValues(roofL: number, roofB: number) {
-	const lbRatio = roofL / roofB;
-	
-	// Wall pressure coefficients for MWFRS (ASCE 7-22 Chapter 27)
-	// For enclosed buildings with flat roofs
-	const windwardCp = 0.8;   // Windward wall (positive pressure)
-	
-	// Leeward wall Cp varies with L/B ratio
-	let leewardCp: number;
-	if (lbRatio <= 1.0) {
-		leewardCp = -0.5;
-	} else if (lbRatio <= 2.0) {
-		// Interpolate between -0.5 (L/B=1) and -0.3 (L/B=2)
-		leewardCp = -0.5 + (lbRatio - 1.0) * (-0.3 - (-0.5)) / (2.0 - 1.0);
-	} else if (lbRatio <= 4.0) {
-		// Interpolate between -0.3 (L/B=2) and -0.2 (L/B=4)
-		leewardCp = -0.3 + (lbRatio - 2.0) * (-0.2 - (-0.3)) / (4.0 - 2.0);
-	} else {
-		leewardCp = -0.2;
-	}
-	
-	const sidewallCp = -0.7;  // Sidewalls (negative pressure)
-	
-	return {
-		windward: windwardCp,  // Windward wall
-		leeward: leewardCp,    // Leeward wall (varies with L/B)
-		sidewall: sidewallCp,  // Sidewalls
-	};
-}
-
-// Calculate roof Cp values based on ASCE 7-22 Chapter 27 (MWFRS)
-function calculateRoofCpValues(roofType: RoofType, roofL: number, roofB: number) {
-	const lbRatio = roofL / roofB;
-	
-	if (roofType === "flat") {
-		// Flat roof pressure coefficients (ASCE 7-22 Chapter 27 MWFRS)
-		// Zone 1 and 3 Cp values vary with L/B ratio
-		let zone1Cp = 0.8;  // Default windward edge
-		let zone3Cp = -0.7; // Default leeward edge
-		
-		// Adjust Cp values based on L/B ratio per ASCE 7-22 Chapter 27 MWFRS
-		if (lbRatio <= 0.5) {
-			zone1Cp = 0.8;
-			zone3Cp = -0.7;
-		} else if (lbRatio <= 1.0) {
-			zone1Cp = 0.7;
-			zone3Cp = -0.6;
-		} else if (lbRatio <= 2.0) {
-			zone1Cp = 0.6;
-			zone3Cp = -0.5;
-		} else {
-			zone1Cp = 0.5;
-			zone3Cp = -0.4;
-		}
-		
-		return {
-			zone1: zone1Cp,  // Windward edge (varies with L/B)
-			zone2: 0.5,      // Middle zone (constant)
-			zone3: zone3Cp,  // Leeward edge (varies with L/B)
-		};
-	} else {
-		// Sloped roof pressure coefficients (ASCE 7-22 Chapter 27 MWFRS)
-		// Cp values depend on roof slope, not L/B ratio
+// Roof pressure items for every Figure 27.3-1 zone and both Cp cases
+function formatRoofPressures(roof: RoofZonePressure[], units: UnitSystem) {
+	return roof.map(({ zone, case1Psf, case2Psf }) => {
+		const extent = zone.startFt !== undefined ? `, ${zone.startFt}-${zone.endFt}ft` : "";
 		return {
-			windward: 0.3,  // Windward slope
-			leeward: -0.7,  // Leeward slope
+			label: `Roof ${zone.label}${extent} (Cp ${zone.cpCase1}, ${zone.cpCase2})`,
+			value: `Case 1: ${formatQuantity(case1Psf[0], "pressure", units)}, ${formatWithUnit(case1Psf[1], "pressure", units)}; Case 2: ${formatQuantity(case2Psf[0], "pressure", units)}, ${formatWithUnit(case2Psf[1], "pressure", units)}`,
 		};
-	}
-}
-
-// Calculate roof pressures based on ASCE 7-22 MWFRS (same as walls)
-function calculateRoofPressures(roofType: RoofType, qz: number, kd: number, gcpi: { positive: number; negative: number }, roofL: number, roofB: number, gustFactor: number) {
-	const q = qz * kd; // Velocity pressure at roof height
-	const cpValues = calculateRoofCpValues(roofType, roofL, roofB);
-	
-	if (roofType === "flat") {
-		// Flat roof pressure coefficients (ASCE 7-22 Chapter 27 MWFRS)
-		// Zone widths depend on L/B ratio
-		const zone1Width = Math.min(roofB * 0.2, roofL * 0.1); // 20% of B or 10% of L, whichever is smaller
-		const zone2Width = roofB - zone1Width; // Remainder
-		
-		return {
-			pressures: [
-				{ label: `Roof Zone 1 (windward edge, ${zone1Width.toFixed(1)}ft)`, value: `${((q * gustFactor * cpValues.zone1) - (q * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * cpValues.zone1) - (q * gcpi.negative)).toFixed(2)} psf` },
-				{ label: `Roof Zone 2 (middle, ${zone2Width.toFixed(1)}ft)`, value: `${((q * gustFactor * cpValues.zone2) - (q * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * cpValues.zone2) - (q * gcpi.negative)).toFixed(2)} psf` },
-				{ label: `Roof Zone 3 (leeward edge, ${zone1Width.toFixed(1)}ft)`, value: `${((q * gustFactor * cpValues.zone3) - (q * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * cpValues.zone3) - (q * gcpi.negative)).toFixed(2)} psf` },
-			],
-			cpValues
-		};
-	} else {
-		// Sloped roof pressure coefficients (ASCE 7-22 Chapter 27 MWFRS)
-		return {
-			pressures: [
-				{ label: "Windward slope (positive)", value: `${((q * gustFactor * cpValues.windward) - (q * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * cpValues.windward) - (q * gcpi.negative)).toFixed(2)} psf` },
-				{ label: "Leeward slope (negative)", value: `${((q * gustFactor * cpValues.leeward) - (q * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * cpValues.leeward) - (q * gcpi.negative)).toFixed(2)} psf` },
-			],
-			cpValues
-		};
-	}
-}
-
-// Calculate Kz using ASCE 7-22 Table 26.10-1 formula
-function calculateKz(exposure: ExposureCategory, heightFt: number): number {
-	const z = Math.max(15, Math.min(heightFt, 500)); // ASCE 7-22 limits
-	const alpha = getAlpha(exposure);
-	const zg = getZg(exposure);
-	const kz = 2.01 * Math.pow(z / zg, 2 / alpha);
-	return Math.round(kz * 1000) / 1000; // round to 3 decimals
+	});
 }
 
-// Calculate Gust Effect Factor (G) per ASCE 7-22 Chapter 27.4
-function calculateGustEffectFactor(exposure: ExposureCategory, heightFt: number): number {
-	// For rigid buildings (typical case), G = 0.85 per ASCE 7-22 Section 27.4.1
-	// This is a simplified calculation - full calculation would require natural frequency
-	return 0.85;
-}
+type ResultsView = "results" | "report" | "scenarios" | "batch";
 
-// Get Gcpi values based on building enclosure type per ASCE 7-22 Chapter 26.11-1
-function getGcpiValues(buildingEnclosure: BuildingEnclosure): { positive: number; negative: number } {
-	switch (buildingEnclosure) {
-		case "enclosed":
-			return { positive: 0.18, negative: -0.18 };
-		case "partially_enclosed":
-			return { positive: 0.55, negative: -0.55 };
-	}
+interface DirectionAnalysis extends DirectionResult {
+	wallItems: Array<{ label: string; value: string }>;
+	roofItems: Array<{ label: string; value: string }>;
 }
 
-// Alpha coefficients from ASCE 7-22 Table 26.10-1
-function getAlpha(exposure: ExposureCategory): number {
-	switch (exposure) {
-		case "B": return 7.0;
-		case "C": return 9.5;
-		case "D": return 11.5;
-	}
+// Wall and roof result items for one principal wind direction
+function formatDirection(direction: DirectionResult, wallEvaluationHeight: number, units: UnitSystem): DirectionAnalysis {
+	return {
+		...direction,
+		wallItems: direction.walls.map((wall) => ({
+			// Only the windward wall follows qz; the leeward and side walls take qh
+			label: `${wall.surface === "Side wall" ? "Sidewall" : wall.surface} pressure (${wall.surface === "Windward wall" ? `at ${formatWithUnit(wallEvaluationHeight, "length", units)}` : "qh"}, Cp ${Number(wall.cp.toFixed(3))})`,
+			value: `${formatQuantity(wall.pressuresPsf[0], "pressure", units)}, ${formatWithUnit(wall.pressuresPsf[1], "pressure", units)}`,
+		})),
+		roofItems: [
+			...formatRoofPressures(direction.roof, units),
+			...direction.roofCp.notes.map((note, idx) => ({ label: `Note ${idx + 1}`, value: note })),
+		],
+	};
 }
 
-// Zg values from ASCE 7-22 Table 26.10-1
-function getZg(exposure: ExposureCategory): number {
-	switch (exposure) {
-		case "B": return 1200;
-		case "C": return 900;
-		case "D": return 700;
-	}
-}
+export default function WindForm() {
+	const [form, setForm] = useState<FormState>(() => (typeof window === "undefined" ? null : decodeProjectHash(window.location.hash, readFormInput)?.input) ?? DEFAULT_FORM);
+	const [projectName, setProjectName] = useState(() => (typeof window === "undefined" ? null : decodeProjectHash(window.location.hash, readFormInput)?.name) ?? DEFAULT_PROJECT_NAME);
+	const [view, setView] = useState<ResultsView>("results");
 
-interface FormState {
-	windSpeedMph: string;
-	exposure: ExposureCategory;
-	numStories: string;
-	storyHeightFt: string;
-	directionalityFactor: string;
-	riskCategory: RiskCategory;
-	roofType: RoofType;
-	buildingEnclosure: BuildingEnclosure;
-	roofLength: string; // L dimension (parallel to wind)
-	roofWidth: string; // B dimension (perpendicular to wind, windward edge)
-	wallEvaluationHeight: string; // Height at which to evaluate wall pressures
-	useManualKz: boolean;
-	manualKz: string;
-}
+	// Calculations run on the US customary form; results are converted back for display
+	const engineForm = useMemo(() => convertFormUnits(form, "imperial"), [form]);
+	const buildingInput = useMemo(() => getBuildingInput(engineForm, form.unitSystem), [engineForm, form.unitSystem]);
 
-export default function WindForm() {
-	const [form, setForm] = useState<FormState>({
-		windSpeedMph: "115",
-		exposure: "B",
-		numStories: "3",
-		storyHeightFt: "10",
-		directionalityFactor: "0.85",
-		riskCategory: "II",
-		roofType: "flat",
-		buildingEnclosure: "enclosed",
-		roofLength: "100",
-		roofWidth: "50",
-		wallEvaluationHeight: "15", // Default to mid-height of 3-story building
-		useManualKz: false,
-		manualKz: "",
-	});
+	const errors = useMemo(() => validateForm(form), [form]);
+	const isValid = Object.keys(errors).length === 0;
 
-	const isValid = useMemo(() => {
-		const v = Number(form.windSpeedMph);
-		const n = Math.floor(Number(form.numStories));
-		const sh = Number(form.storyHeightFt);
-		const kd = Number(form.directionalityFactor);
-		const roofL = Number(form.roofLength);
-		const roofB = Number(form.roofWidth);
-		const wallHeight = Number(form.wallEvaluationHeight);
-		return (
-			isFinite(v) && v > 0 && v < 300 &&
-			Number.isInteger(n) && n >= 1 && n <= 200 &&
-			isFinite(sh) && sh > 4 && sh <= 20 &&
-			isFinite(kd) && kd > 0 && kd <= 1 &&
-			isFinite(roofL) && roofL > 0 && roofL <= 1000 &&
-			isFinite(roofB) && roofB > 0 && roofB <= 1000 &&
-			isFinite(wallHeight) && wallHeight > 0 && wallHeight <= n * sh &&
-			(!form.useManualKz || (form.manualKz !== "" && isFinite(Number(form.manualKz)) && Number(form.manualKz) > 0.3 && Number(form.manualKz) < 3))
-		);
-	}, [form]);
+	const analysis = useMemo(() => (isValid ? analyzeBuilding(buildingInput) : null), [buildingInput, isValid]);
+	const warnings = useMemo(() => (analysis ? getApplicabilityWarnings(buildingInput, analysis, engineForm.procedure, form.unitSystem) : []), [analysis, buildingInput, engineForm.procedure, form.unitSystem]);
 
-	const { summaryItems, storyPressures, wallPressures, roofPressuresGrouped, diagram, gcpi } = useMemo(() => {
-		if (!isValid) return { summaryItems: [], storyPressures: [], wallPressures: [], roofPressuresGrouped: [], diagram: null as null | { numStories: number; storyHeightFt: number; perStoryPressuresPsf: number[] }, gcpi: null };
-		const n = Math.floor(Number(form.numStories));
-		const sh = Number(form.storyHeightFt);
-		const v = Number(form.windSpeedMph);
-		const kd = Number(form.directionalityFactor);
-		const exposure = form.exposure;
-		const riskCategory = form.riskCategory;
-		const perStoryPressuresPsf: number[] = [];
-		for (let i = 1; i <= n; i++) {
-			const midZ = (i - 0.5) * sh;
-			const r = calculateVelocityPressure({
-				windSpeedMph: v,
-				exposure,
-				heightFt: midZ,
-				directionalityFactor: kd,
-				riskCategory,
-				overrideKz: form.useManualKz && form.manualKz !== "" ? Number(form.manualKz) : undefined,
-			});
-			perStoryPressuresPsf.push(r.velocityPressurePsf);
-		}
-		const totalHeight = n * sh;
-		const lastMidZ = (n - 0.5) * sh;
-		const topResult = calculateVelocityPressure({
-			windSpeedMph: v,
-			exposure,
-			heightFt: lastMidZ,
-			directionalityFactor: kd,
-			riskCategory,
-			overrideKz: form.useManualKz ? Number(form.manualKz) : undefined,
-		});
-		const gcpi = getGcpiValues(form.buildingEnclosure);
-		
-		// Calculate gust effect factor
-		const gustFactor = calculateGustEffectFactor(exposure, totalHeight);
-		
-		// Calculate roof pressures based on roof type
-		const roofResult = calculateRoofPressures(form.roofType, topResult.velocityPressurePsf, kd, gcpi, Number(form.roofLength), Number(form.roofWidth), gustFactor);
-		const roofPressures = roofResult.pressures;
-		const cpValues = roofResult.cpValues;
+	const { summaryItems, storyPressures, directions, envelope, loadCases, lowRise, roofZones, claddingPressures, diagram, profile, qhPsf, report } = useMemo(() => {
+		if (!analysis) return { summaryItems: [], storyPressures: [], directions: [] as DirectionAnalysis[], envelope: [], loadCases: [] as LoadCaseResult[], lowRise: null as LowRiseResult | null, roofZones: [], claddingPressures: [], diagram: null as null | { numStories: number; storyHeightsFt: number[]; planWidthsFt: number[]; perStoryPressuresPsf: number[] }, profile: null, qhPsf: 0, report: null };
+		const n = buildingInput.numStories;
+		const sh = buildingInput.storyHeightFt;
+		const v = buildingInput.windSpeedMph;
+		const kd = buildingInput.directionalityFactor;
+		const units = form.unitSystem;
+		const unit = (quantity: Quantity) => getUnitLabel(quantity, units);
+		const display = (value: number, quantity: Quantity) => Number(formatQuantity(value, quantity, units));
+		const { exposure, enclosure, velocityPressure, cladding } = analysis;
+		const riskCategory = buildingInput.riskCategory;
+		const edition = buildingInput.edition;
+		const ke = buildingInput.groundElevationFactor ?? 1.0;
+		const qhResult = velocityPressure.qh;
+		const perStoryPressuresPsf = velocityPressure.stories.map((s) => s.qzPsf);
+		const meanRoofHeight = analysis.meanRoofHeightFt;
+		const gcpi = enclosure.gcpi;
+		const directions = analysis.directions.map((d) => formatDirection(d, buildingInput.wallEvaluationHeightFt, units));
+		const primary = directions[0];
+		const gust = primary.gust;
+		const stories = getStoryGeometry(buildingInput);
 		
 		// Add wall Cp values to summary
-		const wallCpValues = calculateWallCpValues(Number(form.roofLength), Number(form.roofWidth));
+		const wallCpValues = primary.wallCp;
 		const wallCpSummaryItems = [
 			{ label: "Wall Cp Windward", value: wallCpValues.windward },
 			{ label: "Wall Cp Leeward", value: wallCpValues.leeward },
@@ -256,87 +112,195 @@ export default function WindForm() {
 
 		const summaryItems = [
 			{ label: "Stories", value: n },
-			{ label: "Story height (ft)", value: sh },
-			{ label: "Total height (ft)", value: totalHeight },
-			{ label: "V (mph)", value: v },
+			{ label: `Story height (${unit("length")})`, value: buildingInput.stories ? "varies by story" : display(sh, "length") },
+			{ label: `Total height (${unit("length")})`, value: display(analysis.eaveHeightFt, "length") },
+			{ label: `Mean roof height h (${unit("length")})`, value: display(meanRoofHeight, "length") },
+			{ label: `V (${unit("speed")})`, value: display(v, "speed") },
 			{ label: "Exposure", value: exposure },
+			...(engineForm.determineExposure ? directions.map((d) => ({ label: `Exposure (${d.label})`, value: d.exposure })) : []),
+			{ label: "ASCE edition", value: `ASCE ${edition}` },
 			{ label: "Risk Category", value: riskCategory },
+			{ label: "Velocity pressure", value: `${getVelocityPressureFormula(edition, units)} (${unit("pressure")}, V in ${unit("speed")})` },
 			{ label: "Kd", value: kd },
-			{ label: "G (Gust Factor)", value: gustFactor },
+			{ label: "Kzt (at roof)", value: velocityPressure.kzt },
+			{ label: "Ke", value: edition === "7-10" ? "n/a (ASCE 7-10)" : ke },
+			{ label: "n1 (Hz)", value: gust.naturalFrequencyHz },
+			...directions.map((d) => ({ label: `${d.gust.flexible ? "Gf" : "G"} (${d.label})`, value: d.gust.gustFactor })),
+			{ label: "Enclosure", value: describeEnclosure(enclosure.classification) },
+			{ label: "Ri", value: enclosure.reductionFactor },
 			{ label: "Gcpi (+)", value: gcpi.positive },
 			{ label: "Gcpi (-)", value: gcpi.negative },
-			{ label: "Top story qz (psf)", value: topResult.velocityPressurePsf },
+			{ label: `qh at mean roof height (${unit("pressure")})`, value: display(qhResult.velocityPressurePsf, "pressure") },
 			...wallCpSummaryItems,
 		];
 		
 		// Group story pressures separately
 		const storyPressures = perStoryPressuresPsf.map((p, idx) => ({
-			label: `Story ${idx + 1} qz (psf)`,
-			value: p,
+			label: `Story ${idx + 1} qz (${unit("pressure")})`,
+			value: display(p, "pressure"),
 		}));
 		
-		// Group roof pressures separately
-		const roofPressuresGrouped = roofPressures.map((p, idx) => ({
-			label: p.label,
-			value: p.value,
-		}));
-		
-		// Calculate wall pressures using correct ASCE 7-22 formula
-		// Wall Pressure = (q × G × Cp) - (qi × Gcpi)
-		// where q = velocity pressure at wall height, qi = velocity pressure at roof height
-		const wallEvaluationHeight = Number(form.wallEvaluationHeight);
-		const wallResult = calculateVelocityPressure({
-			windSpeedMph: v,
-			exposure,
-			heightFt: wallEvaluationHeight,
-			directionalityFactor: kd,
-			riskCategory,
-			overrideKz: form.useManualKz ? Number(form.manualKz) : undefined,
-		});
-		const q = wallResult.velocityPressurePsf; // q at wall evaluation height
-		const qi = topResult.velocityPressurePsf; // qi at roof height
-		
-		const wallPressures = [
-			{ label: `Windward wall pressure (at ${wallEvaluationHeight}ft)`, value: `${((q * gustFactor * wallCpValues.windward) - (qi * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * wallCpValues.windward) - (qi * gcpi.negative)).toFixed(2)} psf` },
-			{ label: `Leeward wall pressure (at ${wallEvaluationHeight}ft)`, value: `${((q * gustFactor * wallCpValues.leeward) - (qi * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * wallCpValues.leeward) - (qi * gcpi.negative)).toFixed(2)} psf` },
-			{ label: `Sidewall pressure (at ${wallEvaluationHeight}ft)`, value: `${((q * gustFactor * wallCpValues.sidewall) - (qi * gcpi.positive)).toFixed(2)}, ${((q * gustFactor * wallCpValues.sidewall) - (qi * gcpi.negative)).toFixed(2)} psf` },
+		const claddingPressures = [
+			{ label: `qh at mean roof height (${unit("pressure")})`, value: display(qhResult.velocityPressurePsf, "pressure") },
+			{ label: `Edge distance a (${unit("length")})`, value: display(cladding.edgeDistanceFt, "length") },
+			{ label: `Roof edge/corner strip ${edition === "7-10" ? "a" : "0.6h"} (${unit("length")})`, value: display(cladding.roofEdgeFt, "length") },
+			...cladding.zones.map((z) => ({
+				label: `${z.surface === "wall" ? "Wall" : "Roof"} Zone ${z.zone} (GCp ${z.gcp.positive}, ${z.gcp.negative})`,
+				value: `${formatQuantity(z.positivePsf, "pressure", units)}, ${formatWithUnit(z.negativePsf, "pressure", units)}`,
+			})),
+			...cladding.notes.map((note, idx) => ({ label: `Note ${idx + 1}`, value: note })),
 		];
 		
+		// Calculation report: derivation for the first principal direction at the mean roof height
+		const topography = buildingInput.topography;
+		const report = {
+			inputs: [
+				{ label: "ASCE edition", value: `ASCE ${edition}` },
+				{ label: "MWFRS procedure", value: engineForm.procedure === "directional" ? "Directional (Chapter 27)" : "Envelope, low-rise (Chapter 28)" },
+				{ label: `Basic wind speed V (${unit("speed")})`, value: display(v, "speed") },
+				{ label: "Risk Category", value: riskCategory },
+				{ label: "Exposure", value: engineForm.determineExposure ? directions.map((d) => `${d.exposure} (${d.label})`).join(", ") : exposure },
+				{ label: "Stories", value: n },
+				...(buildingInput.stories
+					? [{ label: `Story heights and plans L × B (${unit("length")})`, value: stories.map((s, idx) => `${idx + 1}: ${formatQuantity(s.heightFt, "length", units)}, ${formatQuantity(s.lengthFt, "length", units)} × ${formatQuantity(s.widthFt, "length", units)}`).join("; ") }]
+					: [{ label: `Story height (${unit("length")})`, value: display(sh, "length") }]),
+				{ label: `Plan dimensions L × B (${unit("length")})`, value: `${formatQuantity(buildingInput.lengthFt, "length", units)} × ${formatQuantity(buildingInput.widthFt, "length", units)}` },
+				{ label: "Roof", value: engineForm.roofType === "flat" ? "Flat" : `Sloped, θ = ${engineForm.roofSlopeDeg}°` },
+				{ label: `Mean roof height h (${unit("length")})`, value: display(meanRoofHeight, "length") },
+				{ label: "Enclosure", value: describeEnclosure(enclosure.classification) },
+				{ label: "Topography", value: topography ? `${topography.feature}, H = ${formatWithUnit(topography.hillHeightFt, "length", units)}, Lh = ${formatWithUnit(topography.halfHillLengthFt, "length", units)}, x = ${formatWithUnit(topography.crestDistanceFt, "length", units)} ${topography.side}` : "None" },
+				{ label: "Structural system", value: describeStructuralSystem(engineForm.structuralSystem) },
+				{ label: "Damping ratio β", value: engineForm.dampingRatio },
+				{ label: `C&C effective wind area (${unit("area")})`, value: display(buildingInput.effectiveWindAreaSqFt, "area") },
+			],
+			trace: analysis.trace,
+			storyPressures: velocityPressure.stories,
+			notes: [...warnings.map((w) => w.message), ...qhResult.pressureNotes, ...primary.gust.notes, ...enclosure.explanation],
+		};
+		
 		return { 
 			summaryItems, 
 			storyPressures, 
-			wallPressures,
-			roofPressuresGrouped,
-			diagram: { numStories: n, storyHeightFt: sh, perStoryPressuresPsf }, 
-			gcpi 
+			directions,
+			envelope: analysis.envelope,
+			loadCases: analysis.loadCases,
+			lowRise: analysis.lowRise,
+			roofZones: primary.roofCp.zones,
+			claddingPressures,
+			diagram: { numStories: n, storyHeightsFt: stories.map((s) => s.heightFt), planWidthsFt: stories.map((s) => s.widthFt), perStoryPressuresPsf }, 
+			// Continuous qz and Kz for the elevation chart
+			profile: {
+				profiles: getExposureProfiles(buildingInput),
+				exposure,
+				leewardQhPsf: qhResult.velocityPressurePsf,
+				meanRoofHeightFt: meanRoofHeight,
+				wallEvaluationHeightFt: buildingInput.wallEvaluationHeightFt,
+				levelsFt: getStoryLevels(buildingInput),
+			},
+			qhPsf: qhResult.velocityPressurePsf,
+			report,
 		};
-	}, [form, isValid]);
+	}, [analysis, buildingInput, engineForm, form.unitSystem, warnings]);
+
+	// Story table rows follow the number of stories while it is valid
+	const setStoryCount = (next: FormState) => {
+		const n = Math.floor(Number(next.numStories));
+		return next.useStoryTable && n >= 1 && n <= 200 ? { ...next, storyLevels: resizeStoryTable(next.storyLevels, n) } : next;
+	};
+	const storyTable = useMemo(() => getStoryTable(form), [form]);
+
+	// Input error and applicability warnings shown under an input
+	const fieldMessages = (field: keyof FormState) => (
+		<>
+			{errors[field] && <div className="form-error">{errors[field]}</div>}
+			{warnings.filter((w) => w.field === field).map((w) => <div key={w.message} className="form-warning">{w.message}</div>)}
+		</>
+	);
+
+	const roofDiagram = (
+		<RoofDiagram 
+			roofType={form.roofType}
+			slopeAngleDeg={form.roofType === "flat" ? 0 : Number(form.roofSlopeDeg)}
+			roofZones={roofZones}
+			windSpeedMph={Number(engineForm.windSpeed)}
+			exposure={getSiteExposure(buildingInput)}
+			heightFt={getMeanRoofHeight(buildingInput)}
+			velocityPressurePsf={qhPsf}
+			roofLength={Number(engineForm.roofLength)}
+			roofWidth={Number(engineForm.roofWidth)}
+			unitSystem={form.unitSystem}
+		/>
+	);
 
 	return (
 		<div style={{ display: "grid", gap: 12 }}>
-			<h2>ASCE 7-22 Wind Load Calculator (MWFRS)</h2>
+			<h2>ASCE {form.edition} Wind Load Calculator (MWFRS)</h2>
 			<div className="form-container">
 				<div className="form-inputs">
+					<ProjectPanel name={projectName} onNameChange={setProjectName} input={form} readInput={readFormInput} onLoad={setForm} />
+
 					<div className="form-section">
 						<div className="form-section-title">Basic Parameters</div>
 						<div className="form-row">
-							<div className="form-label">Basic wind speed V (mph)</div>
+							<div className="form-label">Units</div>
+							<select 
+								className="form-select" 
+								value={form.unitSystem} 
+								onChange={(e) => setForm(convertFormUnits(form, e.target.value as UnitSystem, 3))}
+							>
+								<option value="imperial">US customary (mph, ft, psf, kips)</option>
+								<option value="metric">SI (m/s, m, kPa, kN)</option>
+							</select>
+						</div>
+						<div className="form-row">
+							<div className="form-label">ASCE 7 edition</div>
+							<select 
+								className="form-select" 
+								value={form.edition} 
+								onChange={(e) => {
+									const edition = e.target.value as AsceEdition;
+									// Partially open only exists from ASCE 7-22 on
+									const buildingEnclosure = getEnclosureClassifications(edition).includes(form.buildingEnclosure) ? form.buildingEnclosure : "enclosed";
+									setForm({ ...form, edition, buildingEnclosure });
+								}}
+							>
+								{ASCE_EDITIONS.map((edition) => (
+									<option key={edition} value={edition}>ASCE {edition}</option>
+								))}
+							</select>
+						</div>
+						<div className="form-row">
+							<div className="form-label">MWFRS procedure</div>
+							<select 
+								className="form-select" 
+								value={form.procedure} 
+								onChange={(e) => setForm({ ...form, procedure: e.target.value as AnalysisProcedure })}
+							>
+								<option value="directional">Directional (Chapter 27)</option>
+								<option value="envelope">Envelope, low-rise (Chapter 28)</option>
+							</select>
+						</div>
+						{fieldMessages("procedure")}
+						<div className="form-row">
+							<div className="form-label">Basic wind speed V ({getUnitLabel("speed", form.unitSystem)})</div>
 							<input 
 								className="form-input" 
 								type="number" 
-								value={form.windSpeedMph} 
-								onChange={(e) => setForm({ ...form, windSpeedMph: e.target.value })} 
+								value={form.windSpeed} 
+								onChange={(e) => setForm({ ...form, windSpeed: e.target.value })} 
 								min={10} 
 								max={300} 
 								step={1} 
 							/>
 						</div>
+						{fieldMessages("windSpeed")}
 						<div className="form-row">
 							<div className="form-label">Exposure Category</div>
 							<select 
 								className="form-select" 
-								value={form.exposure} 
+								value={getSiteExposure(buildingInput)} 
 								onChange={(e) => setForm({ ...form, exposure: e.target.value as ExposureCategory })}
+								disabled={form.determineExposure}
 							>
 								<option value="B">B (Urban/Suburban)</option>
 								<option value="C">C (Open terrain)</option>
@@ -345,28 +309,351 @@ export default function WindForm() {
 						</div>
 						<div className="form-row">
 							<div className="form-label">Risk Category</div>
-							<select 
-								className="form-select" 
-								value={form.riskCategory} 
-								onChange={(e) => setForm({ ...form, riskCategory: e.target.value as RiskCategory })}
-							>
-								<option value="I">I (I=0.87)</option>
-								<option value="II">II (I=1.0)</option>
-								<option value="III">III (I=1.15)</option>
-								<option value="IV">IV (I=1.15)</option>
-							</select>
+							<div>
+								<select 
+									className="form-select" 
+									value={form.riskCategory} 
+									onChange={(e) => setForm({ ...form, riskCategory: e.target.value as RiskCategory })}
+								>
+									<option value="I">I</option>
+									<option value="II">II</option>
+									<option value="III">III</option>
+									<option value="IV">IV</option>
+								</select>
+								<div className="form-info">Enter V from the Risk Category {form.riskCategory} map</div>
+							</div>
 						</div>
 						<div className="form-row">
 							<div className="form-label">Building Enclosure</div>
 							<select 
 								className="form-select" 
-								value={form.buildingEnclosure} 
-								onChange={(e) => setForm({ ...form, buildingEnclosure: e.target.value as BuildingEnclosure })}
+								value={form.classifyFromOpenings ? "from_openings" : form.buildingEnclosure} 
+								onChange={(e) => e.target.value === "from_openings"
+									? setForm({ ...form, classifyFromOpenings: true })
+									: setForm({ ...form, classifyFromOpenings: false, buildingEnclosure: e.target.value as EnclosureClassification })}
 							>
 								<option value="enclosed">Enclosed Building</option>
 								<option value="partially_enclosed">Partially Enclosed Building</option>
+								{form.edition === "7-22" && <option value="partially_open">Partially Open Building</option>}
+								<option value="open">Open Building</option>
+								<option value="from_openings">Classify from wall openings</option>
 							</select>
 						</div>
+						{fieldMessages("buildingEnclosure")}
+					</div>
+
+					{(form.classifyFromOpenings || form.buildingEnclosure === "partially_enclosed") && (
+						<div className="form-section">
+							<div className="form-section-title">Large Volume Reduction (Section 26.13.1.1)</div>
+							<div className="form-row">
+								<div className="form-label">Apply Ri to GCpi</div>
+								<input 
+									className="form-checkbox" 
+									type="checkbox" 
+									checked={form.useReductionFactor} 
+									onChange={(e) => setForm({ ...form, useReductionFactor: e.target.checked })} 
+								/>
+							</div>
+							{form.useReductionFactor && (
+								<>
+									<div className="form-row">
+										<div className="form-label">Internal volume Vi ({getUnitLabel("volume", form.unitSystem)})</div>
+										<input 
+											className="form-input" 
+											type="number" 
+											value={form.internalVolume} 
+											placeholder={isValid ? `${formatQuantity(getInternalVolume(getBuildingInput({ ...engineForm, internalVolume: "" })), "volume", form.unitSystem)} (L × B × h)` : "L × B × h"} 
+											onChange={(e) => setForm({ ...form, internalVolume: e.target.value })} 
+											min={0} 
+											step={100} 
+										/>
+									</div>
+									{fieldMessages("internalVolume")}
+									<div className="form-row">
+										<div className="form-label">Total opening area Aog ({getUnitLabel("area", form.unitSystem)})</div>
+										<input 
+											className="form-input" 
+											type="number" 
+											value={form.totalOpeningArea} 
+											placeholder={isValid ? `${formatQuantity(getTotalOpeningArea({ ...engineForm, totalOpeningArea: "" }), "area", form.unitSystem)} (sum of openings)` : "sum of openings"} 
+											onChange={(e) => setForm({ ...form, totalOpeningArea: e.target.value })} 
+											min={0} 
+											step={1} 
+										/>
+									</div>
+									{fieldMessages("totalOpeningArea")}
+									{isValid && (
+										<div className="form-info">Ri = {getBuildingEnclosure(buildingInput).reductionFactor}</div>
+									)}
+								</>
+							)}
+						</div>
+					)}
+
+					{form.classifyFromOpenings && (
+						<div className="form-section">
+							<div className="form-section-title">Wall Openings (Section 26.2)</div>
+							{form.openings.map((o, idx) => (
+								<div key={o.name} style={{ display: "grid", gap: 8, marginBottom: 8 }}>
+									<div className="form-row">
+										<div className="form-label">{o.name} Ao ({getUnitLabel("area", form.unitSystem)})</div>
+										<input 
+											className="form-input" 
+											type="number" 
+											value={o.openingArea} 
+											placeholder="0" 
+											onChange={(e) => setForm({ ...form, openings: form.openings.map((row, i) => i === idx ? { ...row, openingArea: e.target.value } : row) })} 
+											min={0} 
+											step={1} 
+										/>
+									</div>
+									<div className="form-row">
+										<div className="form-label">{o.name} Ag ({getUnitLabel("area", form.unitSystem)})</div>
+										<input 
+											className="form-input" 
+											type="number" 
+											value={o.grossArea} 
+											placeholder={isValid ? `${formatQuantity(getEnclosureSurfaces(engineForm)[idx].grossAreaSqFt, "area", form.unitSystem)} (from dimensions)` : "from dimensions"} 
+											onChange={(e) => setForm({ ...form, openings: form.openings.map((row, i) => i === idx ? { ...row, grossArea: e.target.value } : row) })} 
+											min={0} 
+											step={1} 
+										/>
+									</div>
+								</div>
+							))}
+							{fieldMessages("openings")}
+							{isValid && (() => {
+								const enclosure = getBuildingEnclosure(buildingInput);
+								return (
+									<div>
+										<div className="form-info"><strong>{describeEnclosure(enclosure.classification)}</strong> (Gcpi = ±{enclosure.gcpi.positive})</div>
+										{enclosure.explanation.map((line) => (
+											<div key={line} className="form-info">{line}</div>
+										))}
+									</div>
+								);
+							})()}
+						</div>
+					)}
+
+					<div className="form-section">
+						<div className="form-section-title">Site Exposure (Section 26.7)</div>
+						<div className="form-row">
+							<div className="form-label">Determine from upwind sectors</div>
+							<input 
+								className="form-checkbox" 
+								type="checkbox" 
+								checked={form.determineExposure} 
+								onChange={(e) => setForm({ ...form, determineExposure: e.target.checked })} 
+							/>
+						</div>
+						{form.determineExposure && (
+							<>
+								<div className="form-row">
+									<div className="form-label">Building L axis orientation</div>
+									<select 
+										className="form-select" 
+										value={form.lengthAxisAzimuth} 
+										onChange={(e) => setForm({ ...form, lengthAxisAzimuth: e.target.value })}
+									>
+										<option value="0">N-S (0°)</option>
+										<option value="45">NE-SW (45°)</option>
+										<option value="90">E-W (90°)</option>
+										<option value="135">SE-NW (135°)</option>
+									</select>
+								</div>
+								{form.sectors.map((sector, idx) => (
+									<div key={idx} style={{ display: "grid", gap: 8, marginBottom: 8 }}>
+										<div className="form-row">
+											<div className="form-label">Sector {describeSector(idx * SECTOR_WIDTH_DEG)} roughness</div>
+											<select 
+												className="form-select" 
+												value={sector.roughness} 
+												onChange={(e) => setForm({ ...form, sectors: form.sectors.map((row, i) => i === idx ? { ...row, roughness: e.target.value as SurfaceRoughness } : row) })}
+											>
+												<option value="B">B (urban/suburban, wooded)</option>
+												<option value="C">C (open, scattered obstructions)</option>
+												<option value="D">D (flat, unobstructed, water)</option>
+											</select>
+										</div>
+										<div className="form-row">
+											<div className="form-label">Upwind fetch ({getUnitLabel("length", form.unitSystem)})</div>
+											<input 
+												className="form-input" 
+												type="number" 
+												value={sector.fetch} 
+												onChange={(e) => setForm({ ...form, sectors: form.sectors.map((row, i) => i === idx ? { ...row, fetch: e.target.value } : row) })} 
+												min={0} 
+												step={100} 
+											/>
+										</div>
+										{sector.roughness !== "D" && (
+											<div className="form-row">
+												<div className="form-label">Distance to roughness D ({getUnitLabel("length", form.unitSystem)})</div>
+												<input 
+													className="form-input" 
+													type="number" 
+													value={sector.distanceToD} 
+													placeholder="none" 
+													onChange={(e) => setForm({ ...form, sectors: form.sectors.map((row, i) => i === idx ? { ...row, distanceToD: e.target.value } : row) })} 
+													min={0} 
+													step={100} 
+												/>
+											</div>
+										)}
+									</div>
+								))}
+								{fieldMessages("sectors")}
+								{isValid && WIND_DIRECTIONS.map((direction) => (
+									<div key={direction}>
+										<div className="form-info"><strong>{describeDirection(buildingInput, direction)}: Exposure {getDirectionExposure(buildingInput, direction)}</strong></div>
+										{getDirectionExposures(buildingInput, direction).flatMap((d) => d.explanation).map((line, idx) => (
+											<div key={idx} className="form-info">{line}</div>
+										))}
+									</div>
+								))}
+							</>
+						)}
+					</div>
+
+					<div className="form-section">
+						<div className="form-section-title">Ground Elevation (Section 26.9)</div>
+						<div className="form-row">
+							<div className="form-label">Reduce for site elevation (Ke)</div>
+							<input 
+								className="form-checkbox" 
+								type="checkbox" 
+								checked={form.useGroundElevationFactor} 
+								onChange={(e) => setForm({ ...form, useGroundElevationFactor: e.target.checked })} 
+								disabled={form.edition === "7-10"} 
+							/>
+						</div>
+						{form.edition === "7-10" && (
+							<div className="form-info">ASCE 7-10 has no ground elevation factor</div>
+						)}
+						{form.edition !== "7-10" && form.useGroundElevationFactor && (
+							<>
+								<div className="form-row">
+									<div className="form-label">Ground elevation above sea level</div>
+									<input 
+										className="form-input" 
+										type="number" 
+										value={form.siteElevation} 
+										onChange={(e) => setForm({ ...form, siteElevation: e.target.value })} 
+										step={10} 
+									/>
+								</div>
+								{fieldMessages("siteElevation")}
+								<div className="form-row">
+									<div className="form-label">Elevation units</div>
+									<select 
+										className="form-select" 
+										value={form.siteElevationUnit} 
+										onChange={(e) => setForm({ ...form, siteElevationUnit: e.target.value as "ft" | "m" })}
+									>
+										<option value="ft">ft</option>
+										<option value="m">m</option>
+									</select>
+								</div>
+							</>
+						)}
+						{form.edition !== "7-10" && (
+							<div className="form-info">
+								Ke = {isValid ? getGroundElevationFactor(engineForm).toFixed(3) : "---"}{form.useGroundElevationFactor ? " (Table 26.9-1, Ke = e^(-0.0000362 zg))" : " (conservative value)"}
+							</div>
+						)}
+					</div>
+
+					<div className="form-section">
+						<div className="form-section-title">Topography (Section 26.8)</div>
+						<div className="form-row">
+							<div className="form-label">Hill, ridge or escarpment</div>
+							<input 
+								className="form-checkbox" 
+								type="checkbox" 
+								checked={form.useTopography} 
+								onChange={(e) => setForm({ ...form, useTopography: e.target.checked })} 
+							/>
+						</div>
+						{form.useTopography && (
+							<>
+								<div className="form-row">
+									<div className="form-label">Feature type</div>
+									<select 
+										className="form-select" 
+										value={form.topoFeature} 
+										onChange={(e) => setForm({ ...form, topoFeature: e.target.value as TopographicFeature })}
+									>
+										<option value="ridge">2-D ridge</option>
+										<option value="escarpment">2-D escarpment</option>
+										<option value="hill">3-D axisymmetric hill</option>
+									</select>
+								</div>
+								<div className="form-row">
+									<div className="form-label">Feature height H ({getUnitLabel("length", form.unitSystem)})</div>
+									<input 
+										className="form-input" 
+										type="number" 
+										value={form.topoHillHeight} 
+										onChange={(e) => setForm({ ...form, topoHillHeight: e.target.value })} 
+										min={0} 
+										step={1} 
+									/>
+								</div>
+								{fieldMessages("topoHillHeight")}
+								<div className="form-row">
+									<div className="form-label">Half-length Lh ({getUnitLabel("length", form.unitSystem)})</div>
+									<input 
+										className="form-input" 
+										type="number" 
+										value={form.topoHalfLength} 
+										onChange={(e) => setForm({ ...form, topoHalfLength: e.target.value })} 
+										min={1} 
+										step={1} 
+									/>
+								</div>
+								{fieldMessages("topoHalfLength")}
+								<div className="form-row">
+									<div className="form-label">Distance from crest x ({getUnitLabel("length", form.unitSystem)})</div>
+									<input 
+										className="form-input" 
+										type="number" 
+										value={form.topoCrestDistance} 
+										onChange={(e) => setForm({ ...form, topoCrestDistance: e.target.value })} 
+										min={0} 
+										step={1} 
+									/>
+								</div>
+								{fieldMessages("topoCrestDistance")}
+								<div className="form-row">
+									<div className="form-label">Site relative to crest</div>
+									<select 
+										className="form-select" 
+										value={form.topoSide} 
+										onChange={(e) => setForm({ ...form, topoSide: e.target.value as CrestSide })}
+									>
+										<option value="upwind">Upwind of crest</option>
+										<option value="downwind">Downwind of crest</option>
+									</select>
+								</div>
+								{isValid && (() => {
+									const topography: TopographyInput = { ...(buildingInput.topography as Omit<TopographyInput, "exposure">), exposure: getSiteExposure(buildingInput) };
+									const roofKzt = calculateKzt(topography, getMeanRoofHeight(buildingInput));
+									return (
+										<div className="form-row">
+											<div className="form-label">Kzt at roof (calculated)</div>
+											<div>
+												<div className="form-info">K1 = {roofKzt.k1}, K2 = {roofKzt.k2}, K3 = {roofKzt.k3}</div>
+												<div className="form-info">Kzt = {roofKzt.kzt}</div>
+												{roofKzt.notes.map((note) => (
+													<div key={note} className="form-info">{note}</div>
+												))}
+											</div>
+										</div>
+									);
+								})()}
+							</>
+						)}
 					</div>
 
 					<div className="form-section">
@@ -377,38 +664,41 @@ export default function WindForm() {
 								className="form-input" 
 								type="number" 
 								value={form.numStories} 
-								onChange={(e) => setForm({ ...form, numStories: e.target.value })} 
+								onChange={(e) => setForm(setStoryCount({ ...form, numStories: e.target.value }))} 
 								min={1} 
 								max={200} 
 								step={1} 
 							/>
 						</div>
+						{fieldMessages("numStories")}
 						<div className="form-row">
-							<div className="form-label">Story height (ft)</div>
+							<div className="form-label">{form.useStoryTable ? "Typical story height" : "Story height"} ({getUnitLabel("length", form.unitSystem)})</div>
 							<input 
 								className="form-input" 
 								type="number" 
-								value={form.storyHeightFt} 
-								onChange={(e) => setForm({ ...form, storyHeightFt: e.target.value })} 
+								value={form.storyHeight} 
+								onChange={(e) => setForm({ ...form, storyHeight: e.target.value })} 
 								min={6} 
 								max={20} 
 								step={0.5} 
 							/>
 						</div>
+						{fieldMessages("storyHeight")}
 						<div className="form-row">
-							<div className="form-label">Wall evaluation height (ft)</div>
+							<div className="form-label">Wall evaluation height ({getUnitLabel("length", form.unitSystem)})</div>
 							<input 
 								className="form-input" 
 								type="number" 
 								value={form.wallEvaluationHeight} 
 								onChange={(e) => setForm({ ...form, wallEvaluationHeight: e.target.value })} 
 								min={1} 
-								max={Math.floor(Number(form.numStories)) * Number(form.storyHeightFt)} 
+								max={Number(formatQuantity(getEaveHeight(buildingInput), "length", form.unitSystem))} 
 								step={0.5} 
 							/>
 						</div>
+						{fieldMessages("wallEvaluationHeight")}
 						<div className="form-row">
-							<div className="form-label">Roof Length L (ft)</div>
+							<div className="form-label">Roof Length L ({getUnitLabel("length", form.unitSystem)})</div>
 							<input 
 								className="form-input" 
 								type="number" 
@@ -419,8 +709,9 @@ export default function WindForm() {
 								step={1} 
 							/>
 						</div>
+						{fieldMessages("roofLength")}
 						<div className="form-row">
-							<div className="form-label">Roof Width B (ft)</div>
+							<div className="form-label">Roof Width B ({getUnitLabel("length", form.unitSystem)})</div>
 							<input 
 								className="form-input" 
 								type="number" 
@@ -431,6 +722,117 @@ export default function WindForm() {
 								step={1} 
 							/>
 						</div>
+						{fieldMessages("roofWidth")}
+						<div className="form-row">
+							<div className="form-label">Per-story heights and plans</div>
+							<input 
+								className="form-checkbox" 
+								type="checkbox" 
+								checked={form.useStoryTable} 
+								onChange={(e) => setForm(setStoryCount({ ...form, useStoryTable: e.target.checked }))} 
+							/>
+						</div>
+						{form.useStoryTable && (
+							<>
+								<div className="form-info">
+									Ground story first. A blank height is the typical story height; a blank L or B repeats the story above, widened by that story's setback on both sides, and the top story takes the roof L × B. A setback is how far a story's walls step in from the story below.
+								</div>
+								<table style={{ borderCollapse: "collapse", width: "100%", fontSize: 13 }}>
+									<thead>
+										<tr>
+											<th>Story</th>
+											<th>Height</th>
+											<th>L</th>
+											<th>B</th>
+											<th>Setback</th>
+										</tr>
+									</thead>
+									<tbody>
+										{form.storyLevels.map((row, idx) => {
+											const story = storyTable[idx];
+											const cell = (key: keyof StoryFormRow, placeholder: string) => (
+												<td>
+													<input 
+														className="form-input" 
+														type="number" 
+														value={row[key]} 
+														placeholder={placeholder} 
+														onChange={(e) => setForm({ ...form, storyLevels: form.storyLevels.map((r, i) => i === idx ? { ...r, [key]: e.target.value } : r) })} 
+														min={0} 
+														step={0.5} 
+													/>
+												</td>
+											);
+											return (
+												<tr key={idx}>
+													<td>{idx + 1}</td>
+													{cell("height", String(roundTo(story.heightFt, 2)))}
+													{cell("length", String(roundTo(story.lengthFt, 2)))}
+													{cell("width", String(roundTo(story.widthFt, 2)))}
+													{cell("setback", "0")}
+												</tr>
+											);
+										})}
+									</tbody>
+								</table>
+								<div className="form-info">Lengths in {getUnitLabel("length", form.unitSystem)}</div>
+								{fieldMessages("storyLevels")}
+							</>
+						)}
+					</div>
+
+					<div className="form-section">
+						<div className="form-section-title">Dynamic Properties (Section 26.11)</div>
+						<div className="form-row">
+							<div className="form-label">Structural system</div>
+							<select 
+								className="form-select" 
+								value={form.structuralSystem} 
+								onChange={(e) => setForm({ ...form, structuralSystem: e.target.value as StructuralSystem })}
+							>
+								{(["steel_moment_frame", "concrete_moment_frame", "other"] as const).map((system) => (
+									<option key={system} value={system}>{describeStructuralSystem(system)}</option>
+								))}
+							</select>
+						</div>
+						<div className="form-row">
+							<div className="form-label">Enter natural frequency</div>
+							<input 
+								className="form-checkbox" 
+								type="checkbox" 
+								checked={form.useEnteredFrequency} 
+								onChange={(e) => setForm({ ...form, useEnteredFrequency: e.target.checked })} 
+							/>
+						</div>
+						{form.useEnteredFrequency && (
+							<>
+								<div className="form-row">
+									<div className="form-label">Natural frequency n1 (Hz)</div>
+									<input 
+										className="form-input" 
+										type="number" 
+										value={form.naturalFrequency} 
+										onChange={(e) => setForm({ ...form, naturalFrequency: e.target.value })} 
+										min={0.01} 
+										step={0.01} 
+									/>
+								</div>
+								{fieldMessages("naturalFrequency")}
+							</>
+						)}
+						<div className="form-row">
+							<div className="form-label">Damping ratio β</div>
+							<input 
+								className="form-input" 
+								type="number" 
+								value={form.dampingRatio} 
+								onChange={(e) => setForm({ ...form, dampingRatio: e.target.value })} 
+								min={0.005} 
+								max={0.2} 
+								step={0.005} 
+							/>
+						</div>
+						{fieldMessages("dampingRatio")}
 					</div>
 
 					<div className="form-section">
@@ -440,7 +842,7 @@ export default function WindForm() {
 							<input 
 								className="form-input" 
 								type="text" 
-								value={isValid ? calculateKz(form.exposure, Math.floor(Number(form.numStories)) * Number(form.storyHeightFt)).toFixed(3) : "---"} 
+								value={isValid ? getKz(getSiteExposure(buildingInput), getEaveHeight(buildingInput), form.edition).toFixed(3) : "---"} 
 								readOnly 
 							/>
 						</div>
@@ -456,21 +858,38 @@ export default function WindForm() {
 								step={0.01} 
 							/>
 						</div>
+						{fieldMessages("directionalityFactor")}
+						{(() => {
+							const gust = analysis ? analysis.gust : null;
+							return (
+								<div className="form-row">
+									<div className="form-label">Gust Effect Factor {gust?.flexible ? "Gf" : "G"}</div>
+									<div>
+										<input 
+											className="form-input" 
+											type="text" 
+											value={gust ? gust.gustFactor.toFixed(3) : "---"} 
+											readOnly 
+										/>
+										{gust && (
+											<>
+												<div className="form-info">n1 = {gust.naturalFrequencyHz} Hz{gust.frequencyEstimated ? " (approximate)" : ""}</div>
+												<div className="form-info">Iz = {gust.iz}, Lz = {formatWithUnit(gust.lzFt, "length", form.unitSystem)}, Q = {gust.q}{gust.flexible ? `, R = ${gust.r}, gR = ${gust.gR}` : ""}</div>
+												{gust.flexible && (
+													<div className="form-info" style={{ color: "crimson" }}>n1 &lt; 1 Hz: flexible building, Gf per Section 26.11.5 used</div>
+												)}
+											</>
+										)}
+									</div>
+								</div>
+							);
+						})()}
 						<div className="form-row">
-							<div className="form-label">Gust Effect Factor G</div>
-							<input 
-								className="form-input" 
-								type="text" 
-								value={isValid ? calculateGustEffectFactor(form.exposure, Math.floor(Number(form.numStories)) * Number(form.storyHeightFt)).toFixed(2) : "---"} 
-								readOnly 
-							/>
-						</div>
-						<div className="form-row">
-							<div className="form-label">Gcpi ({form.buildingEnclosure === "enclosed" ? "enclosed" : "partially enclosed"})</div>
+							<div className="form-label">Gcpi ({isValid ? describeEnclosure(getBuildingEnclosure(buildingInput).classification).toLowerCase() : "---"})</div>
 							<div>
-								<div className="form-info">Gcpi (+): {getGcpiValues(form.buildingEnclosure).positive}</div>
-								<div className="form-info">Gcpi (-): {getGcpiValues(form.buildingEnclosure).negative}</div>
-								<div className="form-info">ASCE 7-22 Chapter 26.11-1</div>
+								<div className="form-info">Gcpi (+): {isValid ? getBuildingEnclosure(buildingInput).gcpi.positive : "---"}</div>
+								<div className="form-info">Gcpi (-): {isValid ? getBuildingEnclosure(buildingInput).gcpi.negative : "---"}</div>
+								<div className="form-info">{`ASCE ${form.edition} Table ${form.edition === "7-10" ? "26.11-1" : "26.13-1"}`}</div>
 							</div>
 						</div>
 					</div>
@@ -484,12 +903,67 @@ export default function WindForm() {
 								value={form.roofType} 
 								onChange={(e) => setForm({ ...form, roofType: e.target.value as RoofType })}
 							>
-								<option value="flat">Flat roof (≤5°)</option>
-								<option value="sloped">Sloped roof (5°-45°)</option>
+								<option value="flat">Flat roof (θ = 0°)</option>
+								<option value="sloped">Sloped (gable) roof</option>
 							</select>
 						</div>
+						{form.roofType === "sloped" && (
+							<>
+								<div className="form-row">
+									<div className="form-label">Roof slope θ (deg)</div>
+									<input 
+										className="form-input" 
+										type="number" 
+										value={form.roofSlopeDeg} 
+										onChange={(e) => setForm({ ...form, roofSlopeDeg: e.target.value })} 
+										min={0} 
+										max={89} 
+										step={0.5} 
+									/>
+								</div>
+								{fieldMessages("roofSlopeDeg")}
+							</>
+						)}
+						<div className="form-row">
+							<div className="form-label">Ridge orientation</div>
+							<select 
+								className="form-select" 
+								value={form.ridgeOrientation} 
+								onChange={(e) => setForm({ ...form, ridgeOrientation: e.target.value as RidgeOrientation })}
+							>
+								<option value="normal_to_wind">Ridge normal to wind (along B)</option>
+								<option value="parallel_to_wind">Ridge parallel to wind (along L)</option>
+							</select>
+						</div>
+						<div className="form-row">
+							<div className="form-label">Mean roof height h ({getUnitLabel("length", form.unitSystem)})</div>
+							<input 
+								className="form-input" 
+								type="number" 
+								value={form.meanRoofHeight} 
+								placeholder={isValid ? `${formatQuantity(getMeanRoofHeight(getBuildingInput({ ...engineForm, meanRoofHeight: "" })), "length", form.unitSystem)} (calculated)` : "calculated"} 
+								onChange={(e) => setForm({ ...form, meanRoofHeight: e.target.value })} 
+								min={1} 
+								step={0.5} 
+							/>
+						</div>
+						{fieldMessages("meanRoofHeight")}
+						{analysis && (() => {
+							const roofCp = analysis.directions[0].roofCp;
+							return (
+								<div className="form-row">
+									<div className="form-label">Roof Cp ({getClause("cp", form.edition)})</div>
+									<div>
+										{roofCp.zones.map((zone) => (
+											<div key={zone.label} className="form-info">{zone.label}: Cp = {zone.cpCase1}, {zone.cpCase2}</div>
+										))}
+										<div className="form-info">h/L = {roofCp.hOverL}</div>
+									</div>
+								</div>
+							);
+						})()}
 						{isValid && (() => {
-							const wallCpValues = calculateWallCpValues(Number(form.roofLength), Number(form.roofWidth));
+							const wallCpValues = calculateWallCp(Number(form.roofLength), Number(form.roofWidth));
 							const lbRatio = Number(form.roofLength) / Number(form.roofWidth);
 							return (
 								<div className="form-row">
@@ -498,13 +972,47 @@ export default function WindForm() {
 										<div className="form-info">Windward wall: Cp = {wallCpValues.windward}</div>
 										<div className="form-info">Leeward wall: Cp = {wallCpValues.leeward}</div>
 										<div className="form-info">Sidewalls: Cp = {wallCpValues.sidewall}</div>
-										<div className="form-info">ASCE 7-22 Chapter 27 MWFRS (L/B = {lbRatio.toFixed(2)})</div>
+										<div className="form-info">ASCE {form.edition} {getClause("cp", form.edition)} (L/B = {lbRatio.toFixed(2)})</div>
 									</div>
 								</div>
 							);
 						})()}
 					</div>
 
+					<div className="form-section">
+						<div className="form-section-title">MWFRS Load Cases</div>
+						<div className="form-row">
+							<div className="form-label">Figure 27.3-8 cases 1-4 with torsion</div>
+							<input 
+								className="form-checkbox" 
+								type="checkbox" 
+								checked={form.showLoadCases} 
+								onChange={(e) => setForm({ ...form, showLoadCases: e.target.checked })} 
+							/>
+						</div>
+						<div className="form-info">X = wind parallel to L, Y = wind parallel to B; e = ±0.15B</div>
+					</div>
+
+					<div className="form-section">
+						<div className="form-section-title">Components &amp; Cladding</div>
+						<div className="form-row">
+							<div className="form-label">Effective wind area ({getUnitLabel("area", form.unitSystem)})</div>
+							<input 
+								className="form-input" 
+								type="number" 
+								value={form.effectiveWindArea} 
+								onChange={(e) => setForm({ ...form, effectiveWindArea: e.target.value })} 
+								min={1} 
+								max={10000} 
+								step={1} 
+							/>
+						</div>
+						{fieldMessages("effectiveWindArea")}
+						{form.roofType === "sloped" && Number(form.roofSlopeDeg) > MAX_ROOF_ZONE_SLOPE_DEG && (
+							<div className="form-info">Roof zones {getRoofZones(form.edition).join(", ")} follow {getClause("ccRoof", form.edition)} and are not given for slopes over {MAX_ROOF_ZONE_SLOPE_DEG}°.</div>
+						)}
+					</div>
+
 					<details>
 						<summary>Advanced: Manual Kz override</summary>
 						<div style={{ display: "grid", gap: 8, marginTop: 8 }}>
@@ -518,39 +1026,118 @@ export default function WindForm() {
 								/>
 							</div>
 							{form.useManualKz && (
-								<div className="form-row">
-									<div className="form-label">Manual Kz</div>
-									<input 
-										className="form-input" 
-										type="number" 
-										value={form.manualKz} 
-										onChange={(e) => setForm({ ...form, manualKz: e.target.value })} 
-										min={0.3} 
-										max={3} 
-										step={0.01} 
-									/>
-								</div>
+								<>
+									<div className="form-row">
+										<div className="form-label">Manual Kz</div>
+										<input 
+											className="form-input" 
+											type="number" 
+											value={form.manualKz} 
+											onChange={(e) => setForm({ ...form, manualKz: e.target.value })} 
+											min={0.3} 
+											max={3} 
+											step={0.01} 
+										/>
+									</div>
+									{fieldMessages("manualKz")}
+								</>
 							)}
 						</div>
 					</details>
 				</div>
 				<div style={{ flex: 1, minWidth: 0 }}>
-					{!isValid && (<div style={{ color: "crimson" }}>Check inputs are within reasonable ranges.</div>)}
-					{isValid && diagram && (
+					<div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
+						{view === "results" ? (
+							<>
+								<button type="button" disabled={!isValid} onClick={() => setView("report")}>Calculation report</button>
+								<button type="button" disabled={!isValid} onClick={() => setView("scenarios")}>Scenarios</button>
+								<button type="button" onClick={() => setView("batch")}>Portfolio batch</button>
+							</>
+						) : (
+							<button type="button" onClick={() => setView("results")}>Back to results</button>
+						)}
+					</div>
+					{!isValid && view !== "batch" && (
+						<div style={{ color: "crimson", textAlign: "left" }}>
+							Check inputs are within reasonable ranges:
+							<ul style={{ margin: "4px 0" }}>
+								{Object.values(errors).map((message) => <li key={message}>{message}</li>)}
+							</ul>
+						</div>
+					)}
+					{view === "batch" && <BatchPanel form={form} />}
+					{isValid && view === "report" && report && diagram && (
+						<CalculationReport
+							projectName={projectName}
+							edition={form.edition}
+							unitSystem={form.unitSystem}
+							inputs={report.inputs}
+							trace={report.trace}
+							storyPressures={report.storyPressures}
+							directions={directions}
+							notes={report.notes}
+						>
+							<ResultsCard title="Building Elevation" items={[]} diagram={diagram} showData={false} unitSystem={form.unitSystem} />
+							{profile && <ProfileChart {...profile} unitSystem={form.unitSystem} />}
+							{roofDiagram}
+						</CalculationReport>
+					)}
+					{isValid && view === "scenarios" && (
+						<div style={{ display: "grid", gap: 16 }}>
+							{/* Sweep ranges are entered in the form's units, so start afresh when they change */}
+							<SweepPanel key={form.unitSystem} form={form} />
+							<ScenarioComparison projectName={projectName} form={form} unitSystem={form.unitSystem} />
+						</div>
+					)}
+					{isValid && view === "results" && diagram && (
 						<div style={{ display: "grid", gap: 16 }}>
-							<ResultsCard title="Building Parameters" items={summaryItems} diagram={diagram} showData={false} />
+							{warnings.length > 0 && (
+								<div style={{ border: "1px solid #e0a800", padding: 12, borderRadius: 8, textAlign: "left" }}>
+									<h3 style={{ margin: 0 }}>Applicability Warnings</h3>
+									<ul style={{ margin: "8px 0 0" }}>
+										{warnings.map((w) => <li key={w.message}>{w.message}</li>)}
+									</ul>
+								</div>
+							)}
+							<ResultsCard title="Building Parameters" items={summaryItems} diagram={diagram} showData={false} unitSystem={form.unitSystem} />
+							{profile && <ProfileChart {...profile} unitSystem={form.unitSystem} />}
 							<ResultsCard title="Story Pressures" items={storyPressures} />
-							<ResultsCard title="Wall Pressures" items={wallPressures} />
-							<ResultsCard title="Roof Pressures" items={roofPressuresGrouped} />
-							<RoofDiagram 
-								roofType={form.roofType}
-								windSpeedMph={Number(form.windSpeedMph)}
-								exposure={form.exposure}
-								heightFt={Math.floor(Number(form.numStories)) * Number(form.storyHeightFt)}
-								velocityPressurePsf={summaryItems.find(item => item.label === "Top story qz (psf)")?.value as number || 0}
-								roofLength={Number(form.roofLength)}
-								roofWidth={Number(form.roofWidth)}
-							/>
+							{form.procedure === "envelope" && lowRise && (
+								<LowRiseTable title="Low-Rise Envelope Pressures (Figure 28.3-1)" result={lowRise} unitSystem={form.unitSystem} />
+							)}
+							{form.procedure === "directional" && (
+								<>
+									<ResultsCard
+										title="Base Shear & Overturning"
+										items={directions.flatMap((d) => [
+											{ label: `Base shear, ${d.label}`, value: formatWithUnit(d.storyForces.baseShearKips, "force", form.unitSystem) },
+											{ label: `Overturning moment, ${d.label}`, value: formatWithUnit(d.storyForces.overturningMomentKipFt, "moment", form.unitSystem) },
+										])}
+									/>
+									<Tabs
+										items={[
+											...directions.map((d) => ({
+												label: d.label,
+												content: (
+													<div style={{ display: "grid", gap: 16 }}>
+														<ResultsCard title="Wall Pressures" items={d.wallItems} />
+														<ResultsCard title="Roof Pressures" items={d.roofItems} />
+														<StoryForceTable title="Story Forces" result={d.storyForces} unitSystem={form.unitSystem} />
+													</div>
+												),
+											})),
+											{ label: "Governing Envelope", content: <EnvelopeTable title="Governing Envelope (MWFRS)" rows={envelope} unitSystem={form.unitSystem} /> },
+											...(form.showLoadCases ? [{
+												label: "Load Cases",
+												content: <LoadCaseTable title="Design Wind Load Cases (Figure 27.3-8)" cases={loadCases} unitSystem={form.unitSystem} />,
+											}] : []),
+										]}
+									/>
+								</>
+							)}
+							<ResultsCard title="Components & Cladding Pressures" items={claddingPressures} />
+							{roofDiagram}
+							{analysis && <ExportPanel projectName={projectName} analysis={analysis} unitSystem={form.unitSystem} />}
 						</div>
 					)}
 				</div>
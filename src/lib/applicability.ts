@@ -0,0 +1,117 @@
+import { getTotalOpeningArea, type BuildingAnalysis, type BuildingInput } from "./building";
+import { MAX_ROOF_ZONE_SLOPE_DEG } from "./cladding";
+import type { AnalysisProcedure, FormState } from "./form";
+import { getClause } from "./trace";
+import { formatQuantity, getUnitLabel, type Quantity, type UnitSystem } from "./units";
+import { getKz, getZg, KZ_MIN_HEIGHT_FT, roundTo } from "./wind";
+
+// Engineering applicability checks: the inputs are accepted, but the results rest on limits,
+// extrapolations or entries worth a second look.
+
+export interface ApplicabilityWarning {
+	// Input the warning concerns, null when it concerns the building as a whole
+	field: keyof FormState | null;
+	message: string;
+}
+
+// Approximate range of the mapped basic wind speeds over all risk categories, mph
+const MIN_MAPPED_SPEED_MPH = 90;
+const MAX_MAPPED_SPEED_MPH = 200;
+
+// Largest plan aspect ratio in the leeward wall Cp table
+const MAX_TABULATED_ASPECT_RATIO = 4;
+
+// Relative difference from the computed Kz above which a manual value is flagged
+const MANUAL_KZ_TOLERANCE = 0.25;
+
+export function getApplicabilityWarnings(input: BuildingInput, analysis: BuildingAnalysis, procedure: AnalysisProcedure, unitSystem: UnitSystem): ApplicabilityWarning[] {
+	const { edition } = input;
+	const length = (ft: number) => formatValue(ft, "length", unitSystem);
+	const speed = (mph: number) => formatValue(mph, "speed", unitSystem);
+	const warnings: ApplicabilityWarning[] = [];
+
+	if (input.windSpeedMph < MIN_MAPPED_SPEED_MPH || input.windSpeedMph > MAX_MAPPED_SPEED_MPH) {
+		warnings.push({
+			field: "windSpeed",
+			message: `V = ${speed(input.windSpeedMph)} is outside the mapped basic wind speeds (about ${speed(MIN_MAPPED_SPEED_MPH)} to ${speed(MAX_MAPPED_SPEED_MPH)}, ${getClause("v", edition)}); confirm the site wind speed`,
+		});
+	}
+
+	// Heights at which Kz is evaluated, and which of them fall outside the tabulated range
+	if (input.overrideKz === undefined) {
+		const heights = [
+			...analysis.velocityPressure.stories.map((s) => ({ label: `story ${s.story}`, story: s.story, heightFt: s.heightFt })),
+			{ label: "the wall evaluation height", story: null, heightFt: input.wallEvaluationHeightFt },
+			{ label: "the mean roof height", story: null, heightFt: analysis.meanRoofHeightFt },
+		];
+		const zg = getZg(analysis.exposure, edition);
+		const below = heights.filter((z) => z.heightFt < KZ_MIN_HEIGHT_FT);
+		const above = heights.filter((z) => z.heightFt > zg);
+		if (below.length > 0) {
+			warnings.push({
+				field: null,
+				message: `Kz is taken at ${length(KZ_MIN_HEIGHT_FT)} for heights below it (${getClause("kz", edition)}): ${describeHeights(below, length)}`,
+			});
+		}
+		if (above.length > 0) {
+			warnings.push({
+				field: "numStories",
+				message: `Heights above the gradient height zg = ${length(zg)} for Exposure ${analysis.exposure} in ASCE ${edition} are beyond the Kz power law and use its zg value (${getClause("kz", edition)}): ${describeHeights(above, length)}`,
+			});
+		}
+	} else {
+		const computedKz = getKz(analysis.exposure, analysis.meanRoofHeightFt, edition);
+		const difference = (input.overrideKz - computedKz) / computedKz;
+		if (Math.abs(difference) > MANUAL_KZ_TOLERANCE) {
+			warnings.push({
+				field: "manualKz",
+				message: `Manual Kz = ${input.overrideKz} is ${Math.abs(roundTo(difference * 100, 0))}% ${difference > 0 ? "above" : "below"} the computed Kz = ${computedKz} at h for Exposure ${analysis.exposure}`,
+			});
+		}
+	}
+
+	const aspectRatio = Math.max(input.lengthFt / input.widthFt, input.widthFt / input.lengthFt);
+	if (aspectRatio > MAX_TABULATED_ASPECT_RATIO) {
+		warnings.push({
+			field: "roofLength",
+			message: `Plan aspect ratio ${roundTo(aspectRatio, 2)} is beyond the L/B range of the leeward wall Cp table (up to ${MAX_TABULATED_ASPECT_RATIO}, ${getClause("cp", edition)}); Cp = -0.2 is used`,
+		});
+	}
+
+	if (input.roofSlopeDeg > MAX_ROOF_ZONE_SLOPE_DEG) {
+		warnings.push({
+			field: "roofSlopeDeg",
+			message: `C&C roof pressures are not given for θ = ${roundTo(input.roofSlopeDeg, 1)}°: ${getClause("ccRoof", edition)} covers slopes up to ${MAX_ROOF_ZONE_SLOPE_DEG}°, and the figures for steeper roofs (${edition === "7-10" ? "30.4-2B and 30.4-2C" : "30.3-2B to 30.3-2I"}) are not implemented`,
+		});
+	}
+
+	if (input.internalPressureReduction && analysis.enclosure.classification === "partially_enclosed" && !(getTotalOpeningArea(input) > 0)) {
+		warnings.push({
+			field: "totalOpeningArea",
+			message: `Ri cannot be computed without the total opening area Aog (${getClause("gcpi", edition)}); enter Aog or the openings, or Ri = 1.0 is used`,
+		});
+	}
+
+	if (procedure === "envelope" && !analysis.lowRise.applicable) {
+		warnings.push({
+			field: "procedure",
+			message: `Chapter 28 low-rise limits exceeded: h = ${length(analysis.meanRoofHeightFt)} must not exceed ${length(60)} or the least horizontal dimension, ${length(Math.min(input.lengthFt, input.widthFt))} (Section 26.2); use the directional procedure`,
+		});
+	}
+
+	return warnings;
+}
+
+// Heights as a list; stories, which fall out of range from the bottom or the top, as one range
+function describeHeights(heights: Array<{ label: string; story: number | null; heightFt: number }>, length: (ft: number) => string): string {
+	const stories = heights.filter((z) => z.story !== null);
+	const others = heights.filter((z) => z.story === null).map((z) => `${z.label} (z = ${length(z.heightFt)})`);
+	if (stories.length <= 1) return [...stories.map((z) => `${z.label} (z = ${length(z.heightFt)})`), ...others].join(", ");
+	const [first, last] = [stories[0], stories[stories.length - 1]];
+	return [`stories ${first.story} to ${last.story} (z = ${length(first.heightFt)} to ${length(last.heightFt)})`, ...others].join(", ");
+}
+
+// Value with its unit, without trailing zeros
+function formatValue(value: number, quantity: Quantity, system: UnitSystem): string {
+	return `${Number(formatQuantity(value, quantity, system))} ${getUnitLabel(quantity, system)}`;
+}
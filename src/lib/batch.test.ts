@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { analyzeBatchRow, getBatchResultsTable, getBatchTemplate, parseBatchCsv } from "./batch";
+import { formatCsv } from "./export";
+import { DEFAULT_FORM } from "./form";
+
+describe("parseBatchCsv", () => {
+	it("reads field names and aliases, quoted cells and skips blank lines", () => {
+		const csv = '\uFEFFName,V,Stories,story_height,Enclosure,Colour\r\n"Block A, east",120,4,12,Partially enclosed,red\r\n,,,,,\r\nBlock B,100,,,,\r\n';
+		const { rows, ignoredColumns } = parseBatchCsv(csv, DEFAULT_FORM);
+		expect(ignoredColumns).toEqual(["Colour"]);
+		expect(rows.map((r) => [r.line, r.name])).toEqual([[2, "Block A, east"], [4, "Block B"]]);
+		// The wall evaluation height follows the row's own stories: 4 × 12 / 2 = 24 ft
+		expect(rows[0].form).toMatchObject({ windSpeed: "120", numStories: "4", storyHeight: "12", buildingEnclosure: "partially_enclosed", useStoryTable: false, wallEvaluationHeight: "24" });
+		expect(rows[1].form).toMatchObject({ windSpeed: "100", numStories: DEFAULT_FORM.numStories, wallEvaluationHeight: DEFAULT_FORM.wallEvaluationHeight });
+	});
+
+	it("reports cells it cannot read by line", () => {
+		const { rows } = parseBatchCsv("name,windSpeed,exposure\nBad,fast,E\n", DEFAULT_FORM);
+		expect(rows).toEqual([{
+			line: 2,
+			name: "Bad",
+			form: null,
+			errors: ['windSpeed: "fast" is not a number', 'exposure: "E" is not one of B, C, D'],
+		}]);
+	});
+
+	it("takes defaults in the row's unit system", () => {
+		const [row] = parseBatchCsv("units,speed\nmetric,50\n", DEFAULT_FORM).rows;
+		// 100 ft × 0.3048 = 30.48 m
+		expect(row.form).toMatchObject({ unitSystem: "metric", windSpeed: "50", roofLength: "30.48" });
+	});
+
+	it("reads back its own template", () => {
+		const [row] = parseBatchCsv(formatCsv(getBatchTemplate(DEFAULT_FORM)), DEFAULT_FORM).rows;
+		expect(row).toMatchObject({ name: "Building 1", errors: [] });
+		expect(row.form).toMatchObject({ windSpeed: DEFAULT_FORM.windSpeed, roofLength: DEFAULT_FORM.roofLength, roofType: DEFAULT_FORM.roofType });
+	});
+});
+
+describe("analyzeBatchRow", () => {
+	it("analyzes each building and passes errors through", () => {
+		const { rows } = parseBatchCsv("name,windSpeed\nDefault,115\nInvalid,-5\nUnread,x\n", DEFAULT_FORM);
+		const results = rows.map(analyzeBatchRow);
+		// Default building, top story mid-height 25 ft: Kz = 2.41 (25/3280)^(2/7.5) = 0.656, qz = 0.00256 × 0.656 × 115² = 22.21 psf
+		expect(results[0].metrics?.topQzPsf).toBeCloseTo(22.21, 2);
+		expect(results[1]).toMatchObject({ metrics: null });
+		expect(results[1].errors.length).toBeGreaterThan(0);
+		expect(results[2]).toMatchObject({ metrics: null, errors: ['windSpeed: "x" is not a number'] });
+
+		const table = getBatchResultsTable(results, "imperial");
+		expect(table.headers[2]).toBe("Top story qz (psf)");
+		expect(table.rows[0][2]).toBe(22.21);
+		expect(table.rows[2].slice(2)).toEqual(["", "", "", "", "", 'windSpeed: "x" is not a number']);
+	});
+});
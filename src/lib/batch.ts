@@ -0,0 +1,240 @@
+import { analyzeBuilding } from "./building";
+import type { ExportTable } from "./export";
+import { convertFormUnits, DEFAULT_FORM, FIELD_CHOICES, getBuildingInput, validateForm, type FormState, type ScalarField } from "./form";
+import { summarizeAnalysis, type ScenarioMetrics } from "./scenarios";
+import { formatQuantity, getUnitLabel, type Quantity, type UnitSystem } from "./units";
+
+// Portfolio batch mode: one building per CSV row, columns named after FormState fields.
+// Columns left out take their values from the inputs on screen.
+
+export interface BatchRow {
+	// Line number in the CSV file, counting the header as line 1
+	line: number;
+	name: string;
+	// Null when a cell could not be read
+	form: FormState | null;
+	errors: string[];
+}
+
+// Headline results for one building, US customary units
+export interface BatchMetrics extends ScenarioMetrics {
+	// Velocity pressure at the top story
+	topQzPsf: number;
+}
+
+export interface BatchResult {
+	line: number;
+	name: string;
+	errors: string[];
+	metrics: BatchMetrics | null;
+}
+
+export interface BatchParseResult {
+	rows: BatchRow[];
+	// Header cells that match no input, ignored
+	ignoredColumns: string[];
+}
+
+// Messages between the page and the batch worker
+export interface BatchWorkerRequest {
+	rows: BatchRow[];
+}
+
+export type BatchWorkerMessage =
+	| { type: "progress"; done: number; total: number }
+	| { type: "done"; results: BatchResult[] };
+
+// Shorter column names accepted alongside the field names, after normalizing
+const COLUMN_ALIASES: Record<string, ScalarField> = {
+	units: "unitSystem",
+	speed: "windSpeed",
+	v: "windSpeed",
+	stories: "numStories",
+	length: "roofLength",
+	l: "roofLength",
+	width: "roofWidth",
+	b: "roofWidth",
+	enclosure: "buildingEnclosure",
+	roofslope: "roofSlopeDeg",
+	kd: "directionalityFactor",
+	wallheight: "wallEvaluationHeight",
+};
+
+const NAME_COLUMN = "name";
+
+// Fields a single cell can hold; opening and upwind sector lists are entered on screen only
+const SCALAR_FIELDS = (Object.keys(DEFAULT_FORM) as Array<keyof FormState>).filter((field): field is ScalarField => typeof DEFAULT_FORM[field] !== "object");
+
+// Columns of the downloadable template, in order
+export const BATCH_TEMPLATE_FIELDS: ScalarField[] = [
+	"windSpeed",
+	"exposure",
+	"riskCategory",
+	"numStories",
+	"storyHeight",
+	"roofLength",
+	"roofWidth",
+	"buildingEnclosure",
+	"roofType",
+	"roofSlopeDeg",
+];
+
+// Template with a header row and one building taken from the current inputs
+export function getBatchTemplate(form: FormState): ExportTable {
+	return {
+		name: "Batch template",
+		headers: [NAME_COLUMN, ...BATCH_TEMPLATE_FIELDS],
+		rows: [["Building 1", ...BATCH_TEMPLATE_FIELDS.map((field) => String(form[field]))]],
+	};
+}
+
+// Read a CSV of buildings. Cells are in the row's unit system: its unitSystem column, or else
+// that of the defaults.
+export function parseBatchCsv(text: string, defaults: FormState): BatchParseResult {
+	const [header = [], ...records] = parseCsv(text);
+	const fields = header.map((cell) => (normalizeColumn(cell) === NAME_COLUMN ? NAME_COLUMN : getColumnField(cell)));
+	const ignoredColumns = header.filter((cell, idx) => cell.trim() !== "" && fields[idx] === null);
+	const rows = records.flatMap((record, idx) => {
+		if (record.every((cell) => cell.trim() === "")) return [];
+		return [readRow(record, header, fields, idx + 2, defaults)];
+	});
+	return { rows, ignoredColumns };
+}
+
+// Analysis of one row; rows that could not be read pass their errors through
+export function analyzeBatchRow(row: BatchRow): BatchResult {
+	const result = { line: row.line, name: row.name, errors: row.errors, metrics: null };
+	if (!row.form) return result;
+	const errors = Object.values(validateForm(row.form));
+	if (errors.length > 0) return { ...result, errors };
+	const engineForm = convertFormUnits(row.form, "imperial");
+	const analysis = analyzeBuilding(getBuildingInput(engineForm, row.form.unitSystem));
+	const stories = analysis.velocityPressure.stories;
+	return { ...result, metrics: { ...summarizeAnalysis(analysis), topQzPsf: stories[stories.length - 1].qzPsf } };
+}
+
+export const BATCH_RESULT_COLUMNS: Array<{ key: keyof BatchMetrics; label: string; quantity: Quantity }> = [
+	{ key: "topQzPsf", label: "Top story qz", quantity: "pressure" },
+	{ key: "qhPsf", label: "qh", quantity: "pressure" },
+	{ key: "roofUpliftPsf", label: "Peak roof uplift", quantity: "pressure" },
+	{ key: "baseShearKips", label: "Base shear", quantity: "force" },
+	{ key: "overturningKipFt", label: "Overturning moment", quantity: "moment" },
+];
+
+export function getBatchResultsTable(results: BatchResult[], system: UnitSystem): ExportTable {
+	return {
+		name: "Batch results",
+		headers: ["Line", "Name", ...BATCH_RESULT_COLUMNS.map((c) => `${c.label} (${getUnitLabel(c.quantity, system)})`), "Errors"],
+		rows: results.map((r) => [
+			r.line,
+			r.name,
+			...BATCH_RESULT_COLUMNS.map((c) => (r.metrics ? Number(formatQuantity(r.metrics[c.key], c.quantity, system)) : "")),
+			r.errors.join("; "),
+		]),
+	};
+}
+
+function readRow(record: string[], header: string[], fields: Array<ScalarField | typeof NAME_COLUMN | null>, line: number, defaults: FormState): BatchRow {
+	const errors: string[] = [];
+	const changes: Partial<Record<ScalarField, string | boolean>> = {};
+	let name = `Line ${line}`;
+	fields.forEach((field, idx) => {
+		const value = (record[idx] ?? "").trim();
+		if (field === null || value === "") return;
+		if (field === NAME_COLUMN) {
+			name = value;
+			return;
+		}
+		const parsed = parseCell(field, value, defaults);
+		if (parsed === null) {
+			errors.push(`${header[idx].trim()}: "${value}" is not ${describeExpected(field, defaults)}`);
+		} else {
+			changes[field] = parsed;
+		}
+	});
+	if (errors.length > 0) return { line, name, form: null, errors };
+	// Defaults are re-expressed in the row's units before its own entries are applied
+	const unitSystem = (changes.unitSystem as UnitSystem | undefined) ?? defaults.unitSystem;
+	const form = { ...convertFormUnits(defaults, unitSystem), ...changes } as FormState;
+	// Heights derived from the on-screen geometry follow the row's own stories instead, which
+	// are uniform unless the row asks for the on-screen story table
+	if (changes.numStories !== undefined || changes.storyHeight !== undefined) {
+		if (changes.useStoryTable === undefined) form.useStoryTable = false;
+		if (changes.wallEvaluationHeight === undefined) form.wallEvaluationHeight = String(Math.floor(Number(form.numStories)) * Number(form.storyHeight) / 2);
+		if (changes.meanRoofHeight === undefined) form.meanRoofHeight = "";
+	}
+	if (changes.roofSlopeDeg !== undefined && changes.roofType === undefined) form.roofType = Number(form.roofSlopeDeg) > 0 ? "sloped" : "flat";
+	return { line, name, form, errors };
+}
+
+function parseCell(field: ScalarField, value: string, defaults: FormState): string | boolean | null {
+	const choices = FIELD_CHOICES[field];
+	if (choices) {
+		const normalized = value.toLowerCase().replace(/[\s-]+/g, "_");
+		return choices.find((choice) => choice.toLowerCase() === normalized) ?? null;
+	}
+	if (typeof defaults[field] === "boolean") {
+		const normalized = value.toLowerCase();
+		if (["true", "yes", "y", "1"].includes(normalized)) return true;
+		if (["false", "no", "n", "0"].includes(normalized)) return false;
+		return null;
+	}
+	return isFinite(Number(value)) ? value : null;
+}
+
+function describeExpected(field: ScalarField, defaults: FormState): string {
+	const choices = FIELD_CHOICES[field];
+	if (choices) return `one of ${choices.join(", ")}`;
+	return typeof defaults[field] === "boolean" ? "yes or no" : "a number";
+}
+
+// Case, spaces, underscores and hyphens are ignored in column names
+function normalizeColumn(cell: string): string {
+	return cell.trim().toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+function getColumnField(cell: string): ScalarField | null {
+	const column = normalizeColumn(cell);
+	if (COLUMN_ALIASES[column]) return COLUMN_ALIASES[column];
+	return SCALAR_FIELDS.find((field) => field.toLowerCase() === column) ?? null;
+}
+
+// RFC 4180 records; quoted cells may contain commas, quotes and line breaks
+function parseCsv(text: string): string[][] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let cell = "";
+	let quoted = false;
+	const input = text.replace(/^\uFEFF/, "");
+	for (let i = 0; i < input.length; i++) {
+		const ch = input[i];
+		if (quoted) {
+			if (ch === '"' && input[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (ch === '"') {
+				quoted = false;
+			} else {
+				cell += ch;
+			}
+		} else if (ch === '"') {
+			quoted = true;
+		} else if (ch === ",") {
+			record.push(cell);
+			cell = "";
+		} else if (ch === "\n" || ch === "\r") {
+			if (ch === "\r" && input[i + 1] === "\n") i++;
+			record.push(cell);
+			records.push(record);
+			record = [];
+			cell = "";
+		} else {
+			cell += ch;
+		}
+	}
+	if (cell !== "" || record.length > 0) {
+		record.push(cell);
+		records.push(record);
+	}
+	return records;
+}
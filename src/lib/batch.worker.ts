@@ -0,0 +1,20 @@
+import { analyzeBatchRow, type BatchResult, type BatchWorkerMessage, type BatchWorkerRequest } from "./batch";
+
+// Runs a batch off the main thread, reporting progress as it goes
+const PROGRESS_INTERVAL = 10;
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (e: MessageEvent<BatchWorkerRequest>) => {
+	const { rows } = e.data;
+	const results: BatchResult[] = [];
+	rows.forEach((row, idx) => {
+		results.push(analyzeBatchRow(row));
+		if ((idx + 1) % PROGRESS_INTERVAL === 0) post({ type: "progress", done: idx + 1, total: rows.length });
+	});
+	post({ type: "done", results });
+};
+
+function post(message: BatchWorkerMessage) {
+	worker.postMessage(message);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { analyzeBuilding } from "./building";
+import { DEFAULT_FORM, getBuildingInput } from "./form";
+
+// Worked example: the default building, 3 stories of 10 ft, 100 ft × 50 ft, flat roof, enclosed,
+// ASCE 7-22, V = 115 mph, Exposure B, Kd = 0.85, Kzt = Ke = 1.0. Wind along L, so B = 50 ft.
+describe("analyzeBuilding worked example", () => {
+	const analysis = analyzeBuilding(getBuildingInput(DEFAULT_FORM));
+	const alongL = analysis.directions[0];
+	const wallPressures = (surface: string) => alongL.walls.find((w) => w.surface === surface)?.pressuresPsf ?? [];
+
+	it("evaluates Kz and qz from Table 26.10-1 and Eq. 26.10-1", () => {
+		// Kz = 2.41 (30/3280)^(2/7.5) = 0.689; qh = 0.00256 × 0.689 × 115² = 23.327 psf
+		expect(analysis.meanRoofHeightFt).toBe(30);
+		expect(analysis.velocityPressure.qh.velocityPressurePsf).toBeCloseTo(23.327, 3);
+		// Wall evaluation height 15 ft: Kz = 2.41 (15/3280)^(2/7.5) = 0.573; q = 19.399 psf
+		expect(analysis.velocityPressure.qWall.velocityPressurePsf).toBeCloseTo(19.399, 3);
+	});
+
+	it("computes the rigid gust-effect factor of Section 26.11.4", () => {
+		// z̄ = 30 ft, Iz = 0.30 (33/30)^(1/6) = 0.305, Lz = 320 (30/33)^(1/3) = 310 ft,
+		// Q = 0.888, G = 0.925 (1 + 1.7 × 3.4 × 0.305 × 0.888) / (1 + 1.7 × 3.4 × 0.305) = 0.859
+		expect(alongL.gust.gustFactor).toBeCloseTo(0.859, 3);
+		expect(analysis.enclosure.gcpi).toEqual({ positive: 0.18, negative: -0.18 });
+	});
+
+	it("applies Eq. 27.3-1 with qz on the windward wall and qh elsewhere", () => {
+		const kd = 0.85;
+		const g = 0.859;
+		const internal = 23.327 * kd * 0.18;
+		// L/B = 2: windward Cp = 0.8, leeward Cp = -0.3, side Cp = -0.7
+		expect(wallPressures("Windward wall")[0]).toBeCloseTo(19.399 * kd * g * 0.8 - internal, 2);
+		expect(wallPressures("Leeward wall")[0]).toBeCloseTo(23.327 * kd * g * -0.3 - internal, 2);
+		expect(wallPressures("Side wall")[1]).toBeCloseTo(23.327 * kd * g * -0.7 + internal, 2);
+	});
+
+	it("sums story forces into the base shear", () => {
+		const { stories, baseShearKips } = alongL.storyForces;
+		expect(stories).toHaveLength(3);
+		expect(baseShearKips).toBeCloseTo(stories.reduce((sum, s) => sum + s.forceKips, 0), 1);
+	});
+});
@@ -0,0 +1,456 @@
+import { calculateCladdingPressures, type CladdingResult } from "./cladding";
+import { applyInternalPressureReduction, classifyEnclosure, getGcpi, traceInternalPressure, type EnclosureClassification, type EnclosureResult, type SurfaceOpenings } from "./enclosure";
+import { buildGoverningEnvelope, type EnvelopeRow } from "./envelope";
+import { determineDirectionExposure, getGoverningExposure, type DirectionExposure, type UpwindSector } from "./exposure";
+import { calculateGustEffectFactor, traceGustEffectFactor, type GustInput, type GustResult, type StructuralSystem } from "./gust";
+import { calculateLoadCases, type LoadCaseResult } from "./loadCases";
+import { calculateLowRisePressures, type LowRiseResult } from "./lowRise";
+import { calculateRoofCp, calculateRoofPressures, type RidgeOrientation, type RoofCpResult, type RoofZonePressure } from "./roof";
+import { calculateStoryForces, type DirectionalStoryPressures, type StoryForceResult } from "./storyForces";
+import { calculateKzt, traceTopographicFactor, type KztResult, type TopographyInput } from "./topography";
+import type { TraceEntry } from "./trace";
+import type { UnitSystem } from "./units";
+import { calculateWallCp, calculateWallPressures, type WallCp, type WallPressure } from "./walls";
+import { calculateVelocityPressure, getKz, getPressureDirectionalityFactor, type AsceEdition, type ExposureCategory, type RiskCategory, type WindResult } from "./wind";
+
+// Principal wind directions: parallel to the L axis and parallel to the B axis
+export type WindDirection = "along_L" | "along_B";
+
+export const WIND_DIRECTIONS: WindDirection[] = ["along_L", "along_B"];
+
+// Building, site and wind data in US customary units (mph, ft, ft², ft³)
+export interface BuildingInput {
+	edition: AsceEdition;
+	// Basic wind speed V, mph (read from the Risk Category map)
+	windSpeedMph: number;
+	riskCategory: RiskCategory;
+	// Directionality factor Kd
+	directionalityFactor: number;
+	exposure: ExposureCategory;
+	// Upwind sectors for determining each direction's exposure (Section 26.7); replace exposure when given
+	upwindSectors?: UpwindSector[];
+	// Azimuth of the L axis, degrees clockwise from north (used with upwindSectors)
+	lengthAxisAzimuthDeg?: number;
+	numStories: number;
+	storyHeightFt: number;
+	// Plan dimensions along the L and B axes at the roof, ft
+	lengthFt: number;
+	widthFt: number;
+	// Story levels from the ground up; replace numStories × storyHeightFt and the roof plan below the roof
+	stories?: StoryGeometry[];
+	// Roof slope theta, degrees; 0 for a flat roof
+	roofSlopeDeg: number;
+	// Ridge orientation for wind along L
+	ridgeOrientation: RidgeOrientation;
+	// Mean roof height h, ft; default eave height plus half the ridge rise
+	meanRoofHeightFt?: number;
+	// Height at which wall pressures are evaluated, ft
+	wallEvaluationHeightFt: number;
+	// Optional manual override for Kz
+	overrideKz?: number;
+	// Ground elevation factor Ke, default 1.0
+	groundElevationFactor?: number;
+	// Hill, ridge or escarpment at the site; its exposure follows each wind direction
+	topography?: Omit<TopographyInput, "exposure">;
+	enclosure: EnclosureClassification;
+	// Openings per surface; when given the enclosure is classified from them instead
+	openings?: SurfaceOpenings[];
+	// Large-volume reduction Ri (Section 26.13.1.1); Vi defaults to L × B × h and Aog to the sum of openings
+	internalPressureReduction?: { internalVolumeCuFt?: number; totalOpeningAreaSqFt?: number };
+	structuralSystem: StructuralSystem;
+	// Fundamental natural frequency n1, Hz; estimated from structuralSystem when omitted
+	naturalFrequencyHz?: number;
+	// Damping ratio beta as a fraction of critical
+	dampingRatio: number;
+	// C&C effective wind area, ft^2
+	effectiveWindAreaSqFt: number;
+	// System the qz equation is evaluated in, default "imperial"; inputs and results stay US customary
+	unitSystem?: UnitSystem;
+}
+
+export interface StoryGeometry {
+	heightFt: number;
+	// Plan dimensions of the story along the L and B axes, ft
+	lengthFt: number;
+	widthFt: number;
+}
+
+export interface VelocityPressurePoint {
+	heightFt: number;
+	kz: number;
+	kzt: number;
+	qzPsf: number;
+}
+
+// Velocity pressure at a story mid-height
+export interface StoryVelocityPressure extends VelocityPressurePoint {
+	story: number;
+}
+
+export interface VelocityPressureProfile {
+	exposure: ExposureCategory;
+	// qz at each story mid-height
+	stories: StoryVelocityPressure[];
+	// qh at the mean roof height and q at the wall evaluation height
+	qh: WindResult;
+	qWall: WindResult;
+	// Kzt at the mean roof height; topography is null for flat sites
+	kzt: number;
+	topography: KztResult | null;
+}
+
+export interface SurfaceResult {
+	// Surface name shared across wind directions, e.g. "Windward wall" or "Roof 0 to h/2"
+	surface: string;
+	cp: number;
+	// Figure 27.3-1 roof Cp case, null for walls
+	cpCase: 1 | 2 | null;
+	// Design pressures with +GCpi and with -GCpi, psf
+	positiveGcpiPsf: number;
+	negativeGcpiPsf: number;
+}
+
+export interface DirectionResult {
+	direction: WindDirection;
+	label: string;
+	exposure: ExposureCategory;
+	// Exposure determination for the two azimuths of the direction, empty when exposure was given
+	exposures: DirectionExposure[];
+	velocityPressure: VelocityPressureProfile;
+	gust: GustResult;
+	wallCp: WallCp;
+	roofCp: RoofCpResult;
+	walls: WallPressure[];
+	roof: RoofZonePressure[];
+	surfaces: SurfaceResult[];
+	storyPressures: DirectionalStoryPressures;
+	storyForces: StoryForceResult;
+	// Gust-effect factor, wall and roof pressure derivation
+	trace: TraceEntry[];
+}
+
+export interface BuildingAnalysis {
+	meanRoofHeightFt: number;
+	eaveHeightFt: number;
+	// Exposure giving the highest loads of all directions, used for building-wide results
+	exposure: ExposureCategory;
+	// Kd as applied in the design pressures (1.0 for editions that include it in qz)
+	pressureDirectionalityFactor: number;
+	velocityPressure: VelocityPressureProfile;
+	// Gust-effect factor for wind along L with the building-wide exposure
+	gust: GustResult;
+	enclosure: EnclosureResult;
+	directions: DirectionResult[];
+	envelope: EnvelopeRow[];
+	// Figure 27.3-8 load cases with X = wind along L and Y = wind along B
+	loadCases: LoadCaseResult[];
+	// Chapter 28 envelope procedure
+	lowRise: LowRiseResult;
+	cladding: CladdingResult;
+	// Velocity pressure, internal pressure and wind-along-L pressure derivation
+	trace: TraceEntry[];
+}
+
+// Wind loads on a rectangular building for both principal directions (Chapters 26-30).
+// Every result is numeric, in US customary units.
+export function analyzeBuilding(input: BuildingInput): BuildingAnalysis {
+	const h = getMeanRoofHeight(input);
+	const exposure = getSiteExposure(input);
+	const pressureKd = getPressureDirectionalityFactor(input.edition, input.directionalityFactor);
+	const enclosure = getBuildingEnclosure(input);
+	const gcpi = enclosure.gcpi;
+
+	// Evaluate both principal directions, each with its own exposure, and envelope the results per surface
+	const directions = WIND_DIRECTIONS.map((direction) => analyzeDirection(input, direction, pressureKd, gcpi));
+	const envelope = buildGoverningEnvelope(directions.map((d) => ({
+		direction: d.label,
+		surfaces: [
+			...d.walls.map((wall) => ({ surface: wall.surface, pressuresPsf: wall.pressuresPsf })),
+			...d.roof.map((r) => ({ surface: `Roof ${r.zone.label}`, pressuresPsf: [...r.case1Psf, ...r.case2Psf] })),
+		],
+	})));
+
+	// Building-wide results use the exposure giving the highest loads
+	const velocityPressure = calculateVelocityPressureProfile(input, exposure);
+	const qh = velocityPressure.qh.velocityPressurePsf;
+	const roofSlope = input.roofSlopeDeg;
+	const primary = directions[0];
+	const primaryTopography = getTopography(input, primary.exposure);
+
+	return {
+		meanRoofHeightFt: h,
+		eaveHeightFt: getEaveHeight(input),
+		exposure,
+		pressureDirectionalityFactor: pressureKd,
+		velocityPressure,
+		gust: calculateGustEffectFactor(getGustInput(input, exposure)),
+		enclosure,
+		directions,
+		envelope,
+		loadCases: calculateLoadCases(directions[0].storyPressures, directions[1].storyPressures),
+		// Chapter 28 envelope procedure reuses qh at the mean roof height
+		lowRise: calculateLowRisePressures({
+			qhPsf: qh,
+			directionalityFactor: pressureKd,
+			gcpi,
+			roofAngleDeg: roofSlope,
+			lengthFt: input.lengthFt,
+			widthFt: input.widthFt,
+			meanRoofHeightFt: h,
+		}),
+		// Components & cladding pressures use qh at the mean roof height
+		cladding: calculateCladdingPressures({
+			edition: input.edition,
+			qhPsf: qh,
+			directionalityFactor: pressureKd,
+			gcpi,
+			effectiveWindAreaSqFt: input.effectiveWindAreaSqFt,
+			lengthFt: input.lengthFt,
+			widthFt: input.widthFt,
+			meanRoofHeightFt: h,
+			roofSlopeDeg: roofSlope,
+		}),
+		trace: [
+			...primary.velocityPressure.qh.trace,
+			...(primaryTopography ? traceTopographicFactor(calculateKzt(primaryTopography, h), primaryTopography, h) : []),
+			...traceInternalPressure(enclosure, input.edition),
+			...primary.trace,
+		],
+	};
+}
+
+// Story levels from the ground up: those given, or numStories stories of the same height and the roof plan
+export function getStoryGeometry(input: BuildingInput): StoryGeometry[] {
+	return input.stories ?? Array.from({ length: input.numStories }, () => ({ heightFt: input.storyHeightFt, lengthFt: input.lengthFt, widthFt: input.widthFt }));
+}
+
+export function getEaveHeight(input: BuildingInput): number {
+	return input.stories ? input.stories.reduce((sum, s) => sum + s.heightFt, 0) : input.numStories * input.storyHeightFt;
+}
+
+// Mean roof height h: eave height plus half the ridge rise, unless given directly
+export function getMeanRoofHeight(input: BuildingInput): number {
+	if (input.meanRoofHeightFt !== undefined) return input.meanRoofHeightFt;
+	const eaveHeight = getEaveHeight(input);
+	const span = input.ridgeOrientation === "normal_to_wind" ? input.lengthFt : input.widthFt;
+	const rise = (span / 2) * Math.tan(input.roofSlopeDeg * Math.PI / 180);
+	return eaveHeight + rise / 2;
+}
+
+// Classify from openings when given, otherwise use the enclosure directly; then apply the
+// large-volume reduction Ri when requested
+export function getBuildingEnclosure(input: BuildingInput): EnclosureResult {
+	const enclosure: EnclosureResult = input.openings
+		? classifyEnclosure(input.openings, input.edition)
+		: {
+			classification: input.enclosure,
+			gcpi: getGcpi(input.enclosure),
+			reductionFactor: 1.0,
+			governingSurface: null,
+			explanation: ["Enclosure selected directly"],
+		};
+	if (!input.internalPressureReduction) return enclosure;
+	return applyInternalPressureReduction(enclosure, getInternalVolume(input), getTotalOpeningArea(input));
+}
+
+// Unpartitioned internal volume Vi, default the story volumes plus L × B up to the mean roof height
+export function getInternalVolume(input: BuildingInput): number {
+	if (input.internalPressureReduction?.internalVolumeCuFt !== undefined) return input.internalPressureReduction.internalVolumeCuFt;
+	const storyVolume = getStoryGeometry(input).reduce((sum, s) => sum + s.lengthFt * s.widthFt * s.heightFt, 0);
+	return storyVolume + input.lengthFt * input.widthFt * (getMeanRoofHeight(input) - getEaveHeight(input));
+}
+
+// Total opening area Aog, default the sum of the wall and roof openings
+export function getTotalOpeningArea(input: BuildingInput): number {
+	return input.internalPressureReduction?.totalOpeningAreaSqFt ?? (input.openings ?? []).reduce((sum, s) => sum + s.openingAreaSqFt, 0);
+}
+
+// Wind parallel to a building axis can blow from either end of it, so both azimuths are checked.
+// Empty when the exposure is given rather than determined.
+export function getDirectionExposures(input: BuildingInput, direction: WindDirection): DirectionExposure[] {
+	if (!input.upwindSectors) return [];
+	const azimuth = (input.lengthAxisAzimuthDeg ?? 0) + (direction === "along_L" ? 0 : 90);
+	const h = getMeanRoofHeight(input);
+	return [azimuth, azimuth + 180].map((a) => determineDirectionExposure(input.upwindSectors as UpwindSector[], a, h));
+}
+
+// Exposure for one wind direction (Section 26.7.4.1, MWFRS)
+export function getDirectionExposure(input: BuildingInput, direction: WindDirection): ExposureCategory {
+	if (!input.upwindSectors) return input.exposure;
+	return getGoverningExposure(getDirectionExposures(input, direction));
+}
+
+// Exposure giving the highest loads of all directions (C&C, envelope procedure)
+export function getSiteExposure(input: BuildingInput): ExposureCategory {
+	if (!input.upwindSectors) return input.exposure;
+	return getGoverningExposure(WIND_DIRECTIONS.flatMap((d) => getDirectionExposures(input, d)));
+}
+
+export function describeDirection(input: BuildingInput, direction: WindDirection): string {
+	const oriented = orientInput(input, direction);
+	const axis = direction === "along_L" ? "Wind parallel to L" : "Wind parallel to B";
+	if (oriented.roofSlopeDeg === 0) return axis;
+	return `${axis} (${oriented.ridgeOrientation === "normal_to_wind" ? "normal to ridge" : "parallel to ridge"})`;
+}
+
+// Swap the plan dimensions for wind along B. The ridge is fixed to the building,
+// so its orientation relative to the wind flips with the direction.
+function orientInput(input: BuildingInput, direction: WindDirection): BuildingInput {
+	if (direction === "along_L") return input;
+	return {
+		...input,
+		lengthFt: input.widthFt,
+		widthFt: input.lengthFt,
+		stories: input.stories?.map((s) => ({ ...s, lengthFt: s.widthFt, widthFt: s.lengthFt })),
+		ridgeOrientation: input.ridgeOrientation === "normal_to_wind" ? "parallel_to_wind" : "normal_to_wind",
+	};
+}
+
+// Wall and roof pressures for one principal wind direction; kd is 1.0 for editions that
+// already include it in qz
+function analyzeDirection(input: BuildingInput, direction: WindDirection, kd: number, gcpi: { positive: number; negative: number }): DirectionResult {
+	const exposure = getDirectionExposure(input, direction);
+	const velocityPressure = calculateVelocityPressureProfile(input, exposure);
+	const q = velocityPressure.qWall.velocityPressurePsf; // q at wall evaluation height
+	const qi = velocityPressure.qh.velocityPressurePsf; // qi at mean roof height
+	const oriented = orientInput(input, direction);
+	const gustInput = getGustInput(oriented, exposure);
+	const gust = calculateGustEffectFactor(gustInput);
+	const gustFactor = gust.gustFactor;
+	const stories = getStoryGeometry(oriented);
+	// Wall pressures use the plan of the story at the wall evaluation height
+	const wallStory = getStoryAt(stories, input.wallEvaluationHeightFt);
+	const wallCp = calculateWallCp(wallStory.lengthFt, wallStory.widthFt);
+	const roofCp = calculateRoofCp({
+		slopeAngleDeg: oriented.roofSlopeDeg,
+		meanRoofHeightFt: getMeanRoofHeight(oriented),
+		lengthFt: oriented.lengthFt,
+		ridgeOrientation: oriented.ridgeOrientation,
+	});
+
+	const walls = calculateWallPressures({ edition: input.edition, qPsf: q, qiPsf: qi, directionalityFactor: kd, gustFactor, gcpi, cp: wallCp });
+	const roof = calculateRoofPressures({ edition: input.edition, roofCp, qhPsf: qi, directionalityFactor: kd, gustFactor, gcpi });
+	// Windward pressure follows qz up the building; leeward uses the constant qh. Each story
+	// takes Cp from its own plan.
+	const storyPressures: DirectionalStoryPressures = {
+		stories: velocityPressure.stories.map((s, idx) => {
+			const storyCp = calculateWallCp(stories[idx].lengthFt, stories[idx].widthFt);
+			return {
+				story: s.story,
+				tributaryHeightFt: stories[idx].heightFt,
+				elevationFt: s.heightFt,
+				widthFt: stories[idx].widthFt,
+				windwardPsf: s.qzPsf * kd * gustFactor * storyCp.windward,
+				leewardPsf: qi * kd * gustFactor * storyCp.leeward,
+			};
+		}),
+	};
+
+	return {
+		direction,
+		label: describeDirection(input, direction),
+		exposure,
+		exposures: getDirectionExposures(input, direction),
+		velocityPressure,
+		gust,
+		wallCp,
+		roofCp,
+		walls: walls.walls,
+		roof: roof.zones,
+		surfaces: [
+			...walls.walls.map((wall) => ({ surface: wall.surface, cp: wall.cp, cpCase: null, positiveGcpiPsf: wall.pressuresPsf[0], negativeGcpiPsf: wall.pressuresPsf[1] })),
+			...roof.zones.flatMap((r) => [
+				{ surface: `Roof ${r.zone.label}`, cp: r.zone.cpCase1, cpCase: 1 as const, positiveGcpiPsf: r.case1Psf[0], negativeGcpiPsf: r.case1Psf[1] },
+				{ surface: `Roof ${r.zone.label}`, cp: r.zone.cpCase2, cpCase: 2 as const, positiveGcpiPsf: r.case2Psf[0], negativeGcpiPsf: r.case2Psf[1] },
+			]),
+		],
+		storyPressures,
+		storyForces: calculateStoryForces(storyPressures),
+		trace: [...traceGustEffectFactor(gust, gustInput, input.edition), ...walls.trace, ...roof.trace],
+	};
+}
+
+// Velocity pressures for an exposure: qz at each story mid-height, qh at the mean roof
+// height and q at the wall evaluation height
+function calculateVelocityPressureProfile(input: BuildingInput, exposure: ExposureCategory): VelocityPressureProfile {
+	const topography = getTopography(input, exposure);
+	const h = getMeanRoofHeight(input);
+	const stories: StoryVelocityPressure[] = [];
+	let floorFt = 0;
+	for (const [idx, story] of getStoryGeometry(input).entries()) {
+		stories.push({ story: idx + 1, ...getVelocityPressureAt(input, exposure, floorFt + story.heightFt / 2) });
+		floorFt += story.heightFt;
+	}
+	return {
+		exposure,
+		stories,
+		// Roof pressures and internal pressure use qh at the mean roof height
+		qh: calculateVelocityPressureAt(input, exposure, h),
+		qWall: calculateVelocityPressureAt(input, exposure, input.wallEvaluationHeightFt),
+		kzt: getKztAt(input, exposure, h),
+		topography: topography ? calculateKzt(topography, h) : null,
+	};
+}
+
+// qz with Kz and Kzt at any height for an exposure, as for the story mid-heights
+export function getVelocityPressureAt(input: BuildingInput, exposure: ExposureCategory, heightFt: number): VelocityPressurePoint {
+	return {
+		heightFt,
+		kz: input.overrideKz ?? getKz(exposure, heightFt, input.edition),
+		kzt: getKztAt(input, exposure, heightFt),
+		qzPsf: calculateVelocityPressureAt(input, exposure, heightFt).velocityPressurePsf,
+	};
+}
+
+function calculateVelocityPressureAt(input: BuildingInput, exposure: ExposureCategory, heightFt: number): WindResult {
+	const topography = getTopography(input, exposure);
+	const kzt = topography ? calculateKzt(topography, heightFt) : null;
+	return calculateVelocityPressure({
+		windSpeedMph: input.windSpeedMph,
+		exposure,
+		heightFt,
+		directionalityFactor: input.directionalityFactor,
+		topographicFactor: kzt?.kzt ?? 1.0,
+		topographicMultipliers: kzt?.applies ? kzt : undefined,
+		riskCategory: input.riskCategory,
+		edition: input.edition,
+		groundElevationFactor: input.groundElevationFactor,
+		overrideKz: input.overrideKz,
+		unitSystem: input.unitSystem,
+	});
+}
+
+// Topographic feature with the exposure upwind of it; null for flat sites
+function getTopography(input: BuildingInput, exposure: ExposureCategory): TopographyInput | null {
+	return input.topography ? { ...input.topography, exposure } : null;
+}
+
+// Kzt varies with height above local ground (K3), so evaluate it at each z
+function getKztAt(input: BuildingInput, exposure: ExposureCategory, heightFt: number): number {
+	const topography = getTopography(input, exposure);
+	return topography ? calculateKzt(topography, heightFt).kzt : 1.0;
+}
+
+// Story containing a height; heights above the eave fall in the top story
+function getStoryAt(stories: StoryGeometry[], heightFt: number): StoryGeometry {
+	let floorFt = 0;
+	for (const story of stories) {
+		floorFt += story.heightFt;
+		if (heightFt <= floorFt) return story;
+	}
+	return stories[stories.length - 1];
+}
+
+// Section 26.11 gust input; n1 is estimated unless given
+function getGustInput(input: BuildingInput, exposure: ExposureCategory): GustInput {
+	return {
+		exposure,
+		windSpeedMph: input.windSpeedMph,
+		heightFt: getMeanRoofHeight(input),
+		widthFt: input.widthFt,
+		lengthFt: input.lengthFt,
+		naturalFrequencyHz: input.naturalFrequencyHz,
+		structuralSystem: input.structuralSystem,
+		dampingRatio: input.dampingRatio,
+	};
+}
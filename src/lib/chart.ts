@@ -0,0 +1,17 @@
+// Shared helpers for the SVG charts
+
+export const CHART_COLORS = ["#1f6feb", "#d1242f", "#1a7f37", "#9a6700", "#8250df", "#bf3989"];
+
+// About five round tick values (1, 2 or 5 × 10^n apart) covering the range
+export function getTicks(min: number, max: number): number[] {
+	if (min === max) return [min - 1, min, min + 1];
+	const rough = (max - min) / 5;
+	const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+	const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ?? 10 * magnitude;
+	const ticks: number[] = [];
+	for (let t = Math.floor(min / step) * step; t < max + step / 2; t += step) {
+		ticks.push(Number(t.toPrecision(10)));
+	}
+	if (ticks[ticks.length - 1] < max) ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(10)));
+	return ticks;
+}
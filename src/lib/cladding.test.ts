@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { calculateCladdingPressures, getEdgeDistanceA, getRoofGCp, getRoofZones, getWallGCp } from "./cladding";
+
+describe("getEdgeDistanceA", () => {
+	it("takes the smaller of 10% of the least dimension and 0.4h", () => {
+		expect(getEdgeDistanceA(100, 50, 30)).toBe(5);
+		expect(getEdgeDistanceA(200, 150, 20)).toBe(8);
+	});
+
+	it("is not less than 4% of the least dimension or 3 ft", () => {
+		expect(getEdgeDistanceA(40, 20, 10)).toBe(3);
+		expect(getEdgeDistanceA(400, 300, 15)).toBe(12);
+	});
+});
+
+describe("getWallGCp", () => {
+	it("interpolates zones 4 and 5 on log area between 10 and 500 ft²", () => {
+		expect(getWallGCp("4", 10, false)).toEqual({ positive: 1.0, negative: -1.1 });
+		expect(getWallGCp("5", 500, false)).toEqual({ positive: 0.7, negative: -0.8 });
+		// log(100/10) / log(500/10) = 0.589: -1.4 + 0.589 × 0.6 = -1.047
+		expect(getWallGCp("5", 100, false).negative).toBeCloseTo(-1.047, 3);
+	});
+
+	it("reduces wall GCp by 10% for roof slopes up to 10 degrees", () => {
+		expect(getWallGCp("5", 10, true)).toEqual({ positive: 0.9, negative: -1.26 });
+	});
+});
+
+describe("getRoofGCp", () => {
+	it("uses the zones 1', 1, 2 and 3 of Figure 30.3-2A since ASCE 7-16", () => {
+		expect(getRoofZones("7-22")).toEqual(["1'", "1", "2", "3"]);
+		expect(getRoofGCp("1'", 10, "7-22")).toEqual({ positive: 0.3, negative: -0.9 });
+		expect(getRoofGCp("1", 10, "7-16")).toEqual({ positive: 0.3, negative: -1.7 });
+		expect(getRoofGCp("3", 500, "7-22")).toEqual({ positive: 0.2, negative: -1.4 });
+	});
+
+	it("uses the zones 1, 2 and 3 of Figure 30.4-2A in ASCE 7-10", () => {
+		expect(getRoofZones("7-10")).toEqual(["1", "2", "3"]);
+		expect(getRoofGCp("1", 10, "7-10")).toEqual({ positive: 0.3, negative: -1.0 });
+		expect(getRoofGCp("2", 10, "7-10")).toEqual({ positive: 0.3, negative: -1.8 });
+		expect(getRoofGCp("3", 100, "7-10")).toEqual({ positive: 0.2, negative: -1.1 });
+		// Halfway in log area: -2.8 + 0.5 × 1.7 = -1.95
+		expect(getRoofGCp("3", Math.sqrt(1000), "7-10").negative).toBeCloseTo(-1.95, 3);
+	});
+});
+
+describe("calculateCladdingPressures", () => {
+	const input = { qhPsf: 20, directionalityFactor: 0.85, gcpi: { positive: 0.18, negative: -0.18 }, effectiveWindAreaSqFt: 10, lengthFt: 100, widthFt: 50, meanRoofHeightFt: 30, roofSlopeDeg: 0 };
+
+	it("combines GCp with the opposite sign of GCpi", () => {
+		const zone3 = calculateCladdingPressures({ ...input, edition: "7-22" }).zones.find((z) => z.zone === "3");
+		// 20 × 0.85 × (0.3 + 0.18) = 8.16; 20 × 0.85 × (-3.2 - 0.18) = -57.46
+		expect(zone3).toMatchObject({ surface: "roof", positivePsf: 8.16, negativePsf: -57.46 });
+	});
+
+	it("takes the roof strip as 0.6h since ASCE 7-16 and as a in ASCE 7-10", () => {
+		expect(calculateCladdingPressures({ ...input, edition: "7-16" }).roofEdgeFt).toBe(18);
+		expect(calculateCladdingPressures({ ...input, edition: "7-10" }).roofEdgeFt).toBe(5);
+	});
+
+	it("gives no roof zones for slopes over 7 degrees", () => {
+		const result = calculateCladdingPressures({ ...input, edition: "7-22", roofSlopeDeg: 15 });
+		expect(result.zones.map((z) => z.surface)).toEqual(["wall", "wall"]);
+	});
+});
@@ -0,0 +1,155 @@
+import { getClause } from "./trace";
+import { roundTo, type AsceEdition } from "./wind";
+
+export type WallZone = "4" | "5";
+export type RoofZone = "1'" | "1" | "2" | "3";
+
+export interface GcpPair {
+	positive: number;
+	negative: number;
+}
+
+export interface CladdingInput {
+	edition: AsceEdition;
+	// Velocity pressure at mean roof height qh, psf
+	qhPsf: number;
+	// Directionality factor Kd (applied in the design pressure per ASCE 7-22)
+	directionalityFactor: number;
+	// Internal pressure coefficients (+/-)
+	gcpi: GcpPair;
+	// Effective wind area of the component, ft^2
+	effectiveWindAreaSqFt: number;
+	// Building plan dimensions and mean roof height, ft
+	lengthFt: number;
+	widthFt: number;
+	meanRoofHeightFt: number;
+	// Roof slope theta, degrees: <= 10 deg allows the 10% wall GCp reduction (note 5 of the wall
+	// figure), and roof zones are given up to MAX_ROOF_ZONE_SLOPE_DEG
+	roofSlopeDeg: number;
+}
+
+export interface CladdingZoneResult {
+	surface: "wall" | "roof";
+	zone: WallZone | RoofZone;
+	gcp: GcpPair;
+	// Governing positive and negative design pressures, psf
+	positivePsf: number;
+	negativePsf: number;
+}
+
+export interface CladdingResult {
+	edgeDistanceFt: number; // a
+	roofEdgeFt: number; // roof edge/corner strip: a in ASCE 7-10, 0.6h since ASCE 7-16
+	zones: CladdingZoneResult[];
+	notes: string[];
+}
+
+// Steepest roof covered by Figure 30.3-2A (Figure 30.4-2A in ASCE 7-10); the figures for steeper
+// roofs are not implemented, so no roof zones are given above it
+export const MAX_ROOF_ZONE_SLOPE_DEG = 7;
+
+// Chapter 30 Part 1 (h <= 60 ft) component and cladding pressures:
+// p = qh * Kd * [(GCp) - (GCpi)]
+export function calculateCladdingPressures(input: CladdingInput): CladdingResult {
+	const { edition, qhPsf, directionalityFactor: kd, gcpi, effectiveWindAreaSqFt: area, lengthFt, widthFt, meanRoofHeightFt: h, roofSlopeDeg } = input;
+	const lowSlopeRoof = roofSlopeDeg <= 10;
+	const q = qhPsf * kd;
+	const a = getEdgeDistanceA(lengthFt, widthFt, h);
+	const zones: CladdingZoneResult[] = [];
+
+	const wallZones: WallZone[] = ["4", "5"];
+	for (const zone of wallZones) {
+		const gcp = getWallGCp(zone, area, lowSlopeRoof);
+		zones.push(toZoneResult("wall", zone, gcp, q, gcpi));
+	}
+	const roofZones = roofSlopeDeg <= MAX_ROOF_ZONE_SLOPE_DEG ? getRoofZones(edition) : [];
+	for (const zone of roofZones) {
+		const gcp = getRoofGCp(zone, area, edition);
+		zones.push(toZoneResult("roof", zone, gcp, q, gcpi));
+	}
+
+	const notes: string[] = [];
+	if (h > 60) {
+		notes.push("Mean roof height exceeds 60 ft; Part 1 coefficients shown for reference only (Part 3 applies).");
+	}
+	if (roofZones.length === 0) {
+		notes.push(`Roof zones not given: ${getClause("ccRoof", edition)} covers roof slopes up to ${MAX_ROOF_ZONE_SLOPE_DEG} deg.`);
+	}
+	if (lowSlopeRoof) {
+		notes.push(`Wall GCp reduced 10% for roof slope <= 10 deg (${getClause("ccWall", edition)} note 5).`);
+	}
+	notes.push("Formula: p = qh * Kd * [(GCp) - (GCpi)]");
+
+	return {
+		edgeDistanceFt: a,
+		roofEdgeFt: edition === "7-10" ? a : roundTo(0.6 * h, 2),
+		zones,
+		notes,
+	};
+}
+
+// Edge strip a per ASCE 7-22 Figure 30.3-1: 10% of least horizontal dimension or 0.4h,
+// whichever is smaller, but not less than 4% of least horizontal dimension or 3 ft
+export function getEdgeDistanceA(lengthFt: number, widthFt: number, meanRoofHeightFt: number): number {
+	const least = Math.min(lengthFt, widthFt);
+	const a = Math.min(0.1 * least, 0.4 * meanRoofHeightFt);
+	return roundTo(Math.max(a, 0.04 * least, 3), 2);
+}
+
+// Wall GCp per ASCE 7-16/7-22 Figure 30.3-1, the same as ASCE 7-10 Figure 30.4-1
+export function getWallGCp(zone: WallZone, areaSqFt: number, lowSlopeRoof: boolean): GcpPair {
+	const positive = interpolateLogArea(areaSqFt, 10, 1.0, 500, 0.7);
+	const negative = zone === "4"
+		? interpolateLogArea(areaSqFt, 10, -1.1, 500, -0.8)
+		: interpolateLogArea(areaSqFt, 10, -1.4, 500, -0.8);
+	const factor = lowSlopeRoof ? 0.9 : 1.0;
+	return { positive: roundTo(positive * factor, 3), negative: roundTo(negative * factor, 3) };
+}
+
+// Roof zones for gable/flat roofs with slope <= 7 deg; ASCE 7-16 added the interior zone 1'
+export function getRoofZones(edition: AsceEdition): RoofZone[] {
+	return edition === "7-10" ? ["1", "2", "3"] : ["1'", "1", "2", "3"];
+}
+
+// Roof GCp for gable/flat roofs with slope <= 7 deg per ASCE 7-16/7-22 Figure 30.3-2A, or
+// ASCE 7-10 Figure 30.4-2A, whose values all vary between 10 and 100 ft^2
+export function getRoofGCp(zone: RoofZone, areaSqFt: number, edition: AsceEdition): GcpPair {
+	const positive = interpolateLogArea(areaSqFt, 10, 0.3, 100, 0.2);
+	let negative: number;
+	if (edition === "7-10") {
+		switch (zone) {
+			// ASCE 7-10 has no zone 1'; its interior is part of zone 1
+			case "1'":
+			case "1": negative = interpolateLogArea(areaSqFt, 10, -1.0, 100, -0.9); break;
+			case "2": negative = interpolateLogArea(areaSqFt, 10, -1.8, 100, -1.1); break;
+			case "3": negative = interpolateLogArea(areaSqFt, 10, -2.8, 100, -1.1); break;
+		}
+		return { positive: roundTo(positive, 3), negative: roundTo(negative, 3) };
+	}
+	switch (zone) {
+		case "1'": negative = interpolateLogArea(areaSqFt, 100, -0.9, 1000, -0.4); break;
+		case "1": negative = interpolateLogArea(areaSqFt, 10, -1.7, 500, -1.0); break;
+		case "2": negative = interpolateLogArea(areaSqFt, 10, -2.3, 500, -1.4); break;
+		case "3": negative = interpolateLogArea(areaSqFt, 10, -3.2, 500, -1.4); break;
+	}
+	return { positive: roundTo(positive, 3), negative: roundTo(negative, 3) };
+}
+
+// GCp varies linearly with log(A) between the two tabulated areas and is constant outside them
+function interpolateLogArea(areaSqFt: number, a1: number, v1: number, a2: number, v2: number): number {
+	if (areaSqFt <= a1) return v1;
+	if (areaSqFt >= a2) return v2;
+	const t = (Math.log10(areaSqFt) - Math.log10(a1)) / (Math.log10(a2) - Math.log10(a1));
+	return v1 + t * (v2 - v1);
+}
+
+function toZoneResult(surface: "wall" | "roof", zone: WallZone | RoofZone, gcp: GcpPair, q: number, gcpi: GcpPair): CladdingZoneResult {
+	// Positive external pressure combined with negative internal pressure and vice versa
+	return {
+		surface,
+		zone,
+		gcp,
+		positivePsf: roundTo(q * (gcp.positive - gcpi.negative), 2),
+		negativePsf: roundTo(q * (gcp.negative - gcpi.positive), 2),
+	};
+}
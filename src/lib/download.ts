@@ -0,0 +1,14 @@
+// File name derived from a project name, safe on every platform
+export function getFileName(name: string, extension: string): string {
+	return `${name.trim().replace(/[^\w.-]+/g, "_") || "project"}.${extension}`;
+}
+
+// Save a file generated in the browser through a temporary download link
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
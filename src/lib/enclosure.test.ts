@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { applyInternalPressureReduction, calculateInternalPressureReduction, classifyEnclosure, type SurfaceOpenings } from "./enclosure";
+
+// Four 1,000 ft² walls and a 5,000 ft² roof with the given wall opening areas
+const building = (openings: number[]): SurfaceOpenings[] => [
+	...["North", "East", "South", "West"].map((name, i) => ({ name, openingAreaSqFt: openings[i], grossAreaSqFt: 1000, isWall: true })),
+	{ name: "Roof", openingAreaSqFt: 0, grossAreaSqFt: 5000, isWall: false },
+];
+
+describe("classifyEnclosure", () => {
+	it("classifies a building with every wall 80% open as open", () => {
+		expect(classifyEnclosure(building([800, 900, 800, 1000]))).toMatchObject({ classification: "open", gcpi: { positive: 0, negative: 0 } });
+	});
+
+	it("finds the wall that makes the building partially enclosed", () => {
+		// Ao = 100 > 1.10 × 15 ft², Ao > min(4, 10) ft² and Aoi/Agi = 15/8,000 <= 0.20
+		expect(classifyEnclosure(building([5, 100, 5, 5]))).toMatchObject({ classification: "partially_enclosed", gcpi: { positive: 0.55, negative: -0.55 }, governingSurface: "East" });
+	});
+
+	it("classifies a building with Ao <= min(4 ft², 0.01 Ag) on every wall as enclosed", () => {
+		expect(classifyEnclosure(building([2, 4, 3, 0]))).toMatchObject({ classification: "enclosed", governingSurface: null });
+	});
+
+	it("classifies the remainder as partially open only in ASCE 7-22", () => {
+		// Equal 50 ft² openings: no wall dominates, yet every wall exceeds 4 ft²
+		expect(classifyEnclosure(building([50, 50, 50, 50]), "7-22")).toMatchObject({ classification: "partially_open", gcpi: { positive: 0.18, negative: -0.18 }, governingSurface: "North" });
+		expect(classifyEnclosure(building([50, 50, 50, 50]), "7-16").classification).toBe("enclosed");
+		expect(classifyEnclosure(building([50, 50, 50, 50]), "7-10").classification).toBe("enclosed");
+	});
+});
+
+describe("calculateInternalPressureReduction", () => {
+	it("computes Ri of Section 26.13.1.1", () => {
+		// Vi = 22,800 Aog: Ri = 0.5 (1 + 1/sqrt(2)) = 0.854
+		expect(calculateInternalPressureReduction(2280000, 100)).toBe(0.854);
+		// 0.5 (1 + 1/sqrt(1 + 200,000/2,280,000)) = 0.979
+		expect(calculateInternalPressureReduction(200000, 100)).toBe(0.979);
+	});
+
+	it("is 1.0 without a volume or an opening area", () => {
+		expect(calculateInternalPressureReduction(0, 100)).toBe(1);
+		expect(calculateInternalPressureReduction(2280000, 0)).toBe(1);
+	});
+});
+
+describe("applyInternalPressureReduction", () => {
+	it("scales GCpi by Ri for a partially enclosed building", () => {
+		const result = applyInternalPressureReduction(classifyEnclosure(building([5, 100, 5, 5])), 2280000, 100);
+		// ±0.55 × 0.854 = ±0.47
+		expect(result).toMatchObject({ gcpi: { positive: 0.47, negative: -0.47 }, reductionFactor: 0.854, reductionInputs: { internalVolumeCuFt: 2280000, totalOpeningAreaSqFt: 100 } });
+	});
+
+	it("leaves other classifications and unknown inputs unreduced", () => {
+		expect(applyInternalPressureReduction(classifyEnclosure(building([2, 4, 3, 0])), 2280000, 100)).toMatchObject({ gcpi: { positive: 0.18, negative: -0.18 }, reductionFactor: 1 });
+		const missing = applyInternalPressureReduction(classifyEnclosure(building([5, 100, 5, 5])), 0, 100);
+		expect(missing).toMatchObject({ gcpi: { positive: 0.55, negative: -0.55 }, reductionFactor: 1 });
+		expect(missing.explanation.at(-1)).toMatch(/Vi is not known/);
+	});
+});
@@ -0,0 +1,163 @@
+import { formatTraceValue, getClause, substituteInBothSystems, type TraceEntry } from "./trace";
+import { roundTo, type AsceEdition } from "./wind";
+
+export type EnclosureClassification = "open" | "partially_open" | "partially_enclosed" | "enclosed";
+
+export interface SurfaceOpenings {
+	name: string;
+	// Total area of openings Ao and gross area Ag of the surface, ft^2
+	openingAreaSqFt: number;
+	grossAreaSqFt: number;
+	// Only walls can be the surface receiving positive external pressure; roof openings count toward Aoi
+	isWall: boolean;
+}
+
+export interface EnclosureResult {
+	classification: EnclosureClassification;
+	gcpi: { positive: number; negative: number };
+	// Internal pressure reduction factor Ri applied to gcpi (1.0 when not reduced)
+	reductionFactor: number;
+	// Internal volume Vi, ft³, and total opening area Aog, ft², when Ri was computed from them
+	reductionInputs?: { internalVolumeCuFt: number; totalOpeningAreaSqFt: number };
+	// Wall whose openings drove the classification, when a single wall did
+	governingSurface: string | null;
+	explanation: string[];
+}
+
+// Internal pressure coefficients from ASCE 7-16/7-22 Table 26.13-1 (ASCE 7-10 Table 26.11-1
+// has the same values); only ASCE 7-22 has the partially open class
+export function getGcpi(classification: EnclosureClassification): { positive: number; negative: number } {
+	switch (classification) {
+		case "open": return { positive: 0.0, negative: 0.0 };
+		case "partially_open": return { positive: 0.18, negative: -0.18 };
+		case "partially_enclosed": return { positive: 0.55, negative: -0.55 };
+		case "enclosed": return { positive: 0.18, negative: -0.18 };
+	}
+}
+
+export function describeEnclosure(classification: EnclosureClassification): string {
+	switch (classification) {
+		case "open": return "Open";
+		case "partially_open": return "Partially open";
+		case "partially_enclosed": return "Partially enclosed";
+		case "enclosed": return "Enclosed";
+	}
+}
+
+// Classifications defined by each edition; partially open was introduced in ASCE 7-22
+export function getEnclosureClassifications(edition: AsceEdition): EnclosureClassification[] {
+	return edition === "7-22" ? ["open", "partially_open", "partially_enclosed", "enclosed"] : ["open", "partially_enclosed", "enclosed"];
+}
+
+// Enclosure classification per the ASCE 7-22 Section 26.2 definitions, checking each wall
+// in turn as the wall receiving positive external pressure:
+//   open:               Ao >= 0.8 Ag on every wall
+//   partially enclosed: Ao > 1.10 Aoi, Ao > min(4 ft^2, 0.01 Ag) and Aoi/Agi <= 0.20
+//   enclosed:           Ao <= min(4 ft^2, 0.01 Ag) on every wall
+//   partially open:     anything else
+// ASCE 7-10/7-16 have no partially open class; there a building that is neither open nor
+// partially enclosed is enclosed.
+export function classifyEnclosure(surfaces: SurfaceOpenings[], edition: AsceEdition = "7-22"): EnclosureResult {
+	const walls = surfaces.filter((s) => s.isWall);
+	const explanation: string[] = [];
+	const result = (classification: EnclosureClassification, governingSurface: string | null): EnclosureResult => ({
+		classification,
+		gcpi: getGcpi(classification),
+		reductionFactor: 1.0,
+		governingSurface,
+		explanation,
+	});
+
+	if (walls.length > 0 && walls.every((w) => w.openingAreaSqFt >= 0.8 * w.grossAreaSqFt)) {
+		explanation.push("Every wall is at least 80% open (Ao >= 0.8 Ag): open building");
+		return result("open", null);
+	}
+
+	const totalOpenings = surfaces.reduce((sum, s) => sum + s.openingAreaSqFt, 0);
+	const totalGross = surfaces.reduce((sum, s) => sum + s.grossAreaSqFt, 0);
+	for (const wall of walls) {
+		const aoi = totalOpenings - wall.openingAreaSqFt;
+		const agi = totalGross - wall.grossAreaSqFt;
+		const threshold = Math.min(4, 0.01 * wall.grossAreaSqFt);
+		const ratio = agi > 0 ? aoi / agi : 0;
+		if (wall.openingAreaSqFt > 1.1 * aoi && wall.openingAreaSqFt > threshold && ratio <= 0.2) {
+			explanation.push(`${wall.name}: Ao = ${roundTo(wall.openingAreaSqFt, 1)} ft² > 1.10 Aoi = ${roundTo(1.1 * aoi, 1)} ft²`);
+			explanation.push(`${wall.name}: Ao > min(4 ft², 0.01 Ag) = ${roundTo(threshold, 2)} ft² and Aoi/Agi = ${roundTo(ratio, 3)} <= 0.20`);
+			explanation.push("Partially enclosed building (Section 26.2)");
+			return result("partially_enclosed", wall.name);
+		}
+	}
+
+	if (edition !== "7-22") {
+		explanation.push(`No wall meets the partially enclosed tests and not all walls are 80% open: enclosed building (ASCE ${edition})`);
+		return result("enclosed", null);
+	}
+
+	const exceeding = walls.find((w) => w.openingAreaSqFt > Math.min(4, 0.01 * w.grossAreaSqFt));
+	if (!exceeding) {
+		explanation.push("Every wall has Ao <= min(4 ft², 0.01 Ag): enclosed building");
+		return result("enclosed", null);
+	}
+
+	explanation.push(`${exceeding.name}: Ao = ${roundTo(exceeding.openingAreaSqFt, 1)} ft² exceeds min(4 ft², 0.01 Ag), so not enclosed`);
+	explanation.push("No wall meets the partially enclosed tests and not all walls are 80% open: partially open building");
+	return result("partially_open", exceeding.name);
+}
+
+// Internal pressure reduction factor for a partially enclosed building with a single
+// unpartitioned large volume, ASCE 7-22 Section 26.13.1.1:
+// Ri = 0.5 * (1 + 1 / sqrt(1 + Vi / (22,800 * Aog))) <= 1.0
+export function calculateInternalPressureReduction(internalVolumeCuFt: number, totalOpeningAreaSqFt: number): number {
+	if (!(totalOpeningAreaSqFt > 0) || !(internalVolumeCuFt > 0)) return 1.0;
+	const ri = 0.5 * (1 + 1 / Math.sqrt(1 + internalVolumeCuFt / (22800 * totalOpeningAreaSqFt)));
+	return roundTo(Math.min(ri, 1.0), 3);
+}
+
+// Scale GCpi by Ri; only partially enclosed buildings qualify for the reduction
+export function applyInternalPressureReduction(result: EnclosureResult, internalVolumeCuFt: number, totalOpeningAreaSqFt: number): EnclosureResult {
+	if (result.classification !== "partially_enclosed") {
+		return { ...result, explanation: [...result.explanation, "Ri not applied: only partially enclosed buildings qualify (Section 26.13.1.1)"] };
+	}
+	if (!(totalOpeningAreaSqFt > 0) || !(internalVolumeCuFt > 0)) {
+		const missing = totalOpeningAreaSqFt > 0 ? "Vi" : "Aog";
+		return { ...result, explanation: [...result.explanation, `Ri not computed: ${missing} is not known, so Ri = 1.0 is used (Section 26.13.1.1)`] };
+	}
+	const ri = calculateInternalPressureReduction(internalVolumeCuFt, totalOpeningAreaSqFt);
+	return {
+		...result,
+		gcpi: { positive: roundTo(result.gcpi.positive * ri, 3), negative: roundTo(result.gcpi.negative * ri, 3) },
+		reductionFactor: ri,
+		reductionInputs: { internalVolumeCuFt, totalOpeningAreaSqFt },
+		explanation: [
+			...result.explanation,
+			`Ri = 0.5 (1 + 1/sqrt(1 + Vi/(22,800 Aog))) = ${ri} with Vi = ${roundTo(internalVolumeCuFt, 0)} ft³, Aog = ${roundTo(totalOpeningAreaSqFt, 1)} ft²`,
+		],
+	};
+}
+
+// Internal pressure coefficients, and Ri when applied, as trace entries
+export function traceInternalPressure(result: EnclosureResult, edition: AsceEdition): TraceEntry[] {
+	const clause = getClause("gcpi", edition);
+	const reduced = result.reductionFactor < 1;
+	const equation = reduced ? "GCpi = ±0.55 Ri" : `${describeEnclosure(result.classification)} building`;
+	const inputs = result.reductionInputs;
+	const gcpi = getGcpi(result.classification);
+	return [
+		...(reduced
+			? [{
+				symbol: "Ri",
+				description: "Internal pressure reduction factor",
+				value: result.reductionFactor,
+				quantity: null,
+				equation: "Ri = 0.5 (1 + 1/sqrt(1 + Vi/(22,800 Aog))) <= 1.0",
+				siEquation: "Ri = 0.5 (1 + 1/sqrt(1 + Vi/(6,950 Aog))) <= 1.0",
+				...(inputs
+					? substituteInBothSystems((system) => `Ri = 0.5 (1 + 1/sqrt(1 + ${formatTraceValue(inputs.internalVolumeCuFt, "volume", system)}/(${system === "metric" ? "6,950" : "22,800"} × ${formatTraceValue(inputs.totalOpeningAreaSqFt, "area", system)})))`)
+					: {}),
+				clause,
+			}]
+			: []),
+		{ symbol: "+GCpi", description: "Internal pressure coefficient, positive", value: result.gcpi.positive, quantity: null, equation, substituted: reduced ? `+GCpi = ${gcpi.positive} × ${result.reductionFactor}` : undefined, clause },
+		{ symbol: "-GCpi", description: "Internal pressure coefficient, negative", value: result.gcpi.negative, quantity: null, equation, substituted: reduced ? `-GCpi = ${gcpi.negative} × ${result.reductionFactor}` : undefined, clause },
+	];
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { buildGoverningEnvelope } from "./envelope";
+
+describe("buildGoverningEnvelope", () => {
+	it("picks the governing direction on unrounded pressures", () => {
+		// -10.006 rounds to -10.01, which must not beat the larger suction of -10.007
+		const [row] = buildGoverningEnvelope([
+			{ direction: "X", surfaces: [{ surface: "Side wall", pressuresPsf: [-10.006, 4.004] }] },
+			{ direction: "Y", surfaces: [{ surface: "Side wall", pressuresPsf: [-10.007, 4.003] }] },
+		]);
+		expect(row).toEqual({ surface: "Side wall", maxPositivePsf: 4.004, positiveDirection: "X", maxNegativePsf: -10.007, negativeDirection: "Y" });
+	});
+});
@@ -0,0 +1,45 @@
+export interface SurfacePressure {
+	// Surface name shared across wind directions, e.g. "Windward wall" or "Roof 0 to h/2"
+	surface: string;
+	// Every Cp case and internal pressure combination for the surface, psf
+	pressuresPsf: number[];
+}
+
+export interface DirectionalPressures {
+	direction: string;
+	surfaces: SurfacePressure[];
+}
+
+export interface EnvelopeRow {
+	surface: string;
+	// Largest positive (toward surface) pressure and the direction producing it, null if none
+	maxPositivePsf: number | null;
+	positiveDirection: string | null;
+	// Largest negative (away from surface) pressure and the direction producing it, null if none
+	maxNegativePsf: number | null;
+	negativeDirection: string | null;
+}
+
+// Governing envelope over all evaluated wind directions: for each surface, keep the
+// extreme positive and negative pressures and record which direction controls each.
+// Pressures are compared and kept unrounded; they are rounded only for display.
+export function buildGoverningEnvelope(directions: DirectionalPressures[]): EnvelopeRow[] {
+	const rows = new Map<string, EnvelopeRow>();
+	for (const { direction, surfaces } of directions) {
+		for (const { surface, pressuresPsf } of surfaces) {
+			const row = rows.get(surface) ?? { surface, maxPositivePsf: null, positiveDirection: null, maxNegativePsf: null, negativeDirection: null };
+			for (const p of pressuresPsf) {
+				if (p > 0 && (row.maxPositivePsf === null || p > row.maxPositivePsf)) {
+					row.maxPositivePsf = p;
+					row.positiveDirection = direction;
+				}
+				if (p < 0 && (row.maxNegativePsf === null || p < row.maxNegativePsf)) {
+					row.maxNegativePsf = p;
+					row.negativeDirection = direction;
+				}
+			}
+			rows.set(surface, row);
+		}
+	}
+	return Array.from(rows.values());
+}
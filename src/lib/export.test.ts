@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { analyzeBuilding } from "./building";
+import { formatCsv, getExportTables, type ExportTable } from "./export";
+import { DEFAULT_FORM, getBuildingInput } from "./form";
+import { createXlsxWorkbook } from "./xlsx";
+
+describe("getExportTables", () => {
+	const analysis = analyzeBuilding(getBuildingInput(DEFAULT_FORM));
+
+	it("exports story qz, surface pressures and story forces with unit labels", () => {
+		const tables = getExportTables(analysis, "imperial");
+		expect(tables.map((t) => t.name)).toEqual(["Story qz", "Surface pressures", "Story forces"]);
+		expect(tables[0].headers).toEqual(["Story", "z (ft)", "Kz", "Kzt", "qz (psf)"]);
+		// One story force row per story for each of the two directions
+		expect(tables[2].rows).toHaveLength(6);
+	});
+
+	it("converts to metric display units", () => {
+		const [imperial] = getExportTables(analysis, "imperial");
+		const [metric] = getExportTables(analysis, "metric");
+		expect(metric.headers).toEqual(["Story", "z (m)", "Kz", "Kzt", "qz (kPa)"]);
+		expect(metric.rows[0][1]).toBe(Number((Number(imperial.rows[0][1]) * 0.3048).toFixed(2)));
+		expect(metric.rows[0][2]).toBe(imperial.rows[0][2]);
+	});
+});
+
+describe("formatCsv", () => {
+	it("writes RFC 4180 CSV with a byte order mark and CRLF line endings", () => {
+		const table: ExportTable = { name: "t", headers: ["Surface", "p (psf)"], rows: [["Windward, \"A\"", 12.5], ["Line\nbreak", -3]] };
+		expect(formatCsv(table)).toBe('\uFEFFSurface,p (psf)\r\n"Windward, ""A""",12.5\r\n"Line\nbreak",-3\r\n');
+	});
+});
+
+// Names and contents of the stored (uncompressed) entries of a ZIP archive
+function readZip(bytes: Uint8Array): Map<string, string> {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const decoder = new TextDecoder();
+	const entries = new Map<string, string>();
+	for (let offset = 0; view.getUint32(offset, true) === 0x04034b50;) {
+		const size = view.getUint32(offset + 18, true);
+		const nameLength = view.getUint16(offset + 26, true);
+		const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+		entries.set(name, decoder.decode(bytes.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size)));
+		offset += 30 + nameLength + size;
+	}
+	return entries;
+}
+
+describe("createXlsxWorkbook", () => {
+	const tables: ExportTable[] = [
+		{ name: "Story qz", headers: ["Story", "qz (psf)"], rows: [[1, 19.4], [2, ""]] },
+		{ name: "story qz", headers: ["A & B"], rows: [["<x>"]] },
+		{ name: "Pressures: case 1/2", headers: ["H"], rows: [] },
+	];
+	const entries = readZip(createXlsxWorkbook(tables));
+
+	it("packs the workbook parts and one worksheet per table", () => {
+		expect([...entries.keys()]).toEqual([
+			"[Content_Types].xml", "_rels/.rels", "xl/workbook.xml", "xl/_rels/workbook.xml.rels", "xl/styles.xml",
+			"xl/worksheets/sheet1.xml", "xl/worksheets/sheet2.xml", "xl/worksheets/sheet3.xml",
+		]);
+	});
+
+	it("makes sheet names valid and unique", () => {
+		const names = [...(entries.get("xl/workbook.xml") ?? "").matchAll(/<sheet name="([^"]*)"/g)].map((m) => m[1]);
+		expect(names).toEqual(["Story qz", "story qz (2)", "Pressures  case 1 2"]);
+	});
+
+	it("writes numbers as values, text inline and skips empty cells", () => {
+		const sheet1 = entries.get("xl/worksheets/sheet1.xml") ?? "";
+		expect(sheet1).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Story</t></is></c>');
+		expect(sheet1).toContain('<row r="2"><c r="A2"><v>1</v></c><c r="B2"><v>19.4</v></c></row>');
+		expect(sheet1).toContain('<row r="3"><c r="A3"><v>2</v></c></row>');
+		expect(entries.get("xl/worksheets/sheet2.xml")).toContain('<t xml:space="preserve">&lt;x&gt;</t>');
+	});
+});
@@ -0,0 +1,61 @@
+import type { BuildingAnalysis } from "./building";
+import { formatQuantity, getUnitLabel, type Quantity, type UnitSystem } from "./units";
+
+// A result table as exported to CSV and spreadsheets, in display units
+export interface ExportTable {
+	// Sheet name and file name suffix
+	name: string;
+	headers: string[];
+	rows: Array<Array<string | number>>;
+}
+
+// Story velocity pressures, surface pressures and story forces for both principal directions
+export function getExportTables(analysis: BuildingAnalysis, system: UnitSystem): ExportTable[] {
+	const unit = (quantity: Quantity) => getUnitLabel(quantity, system);
+	const display = (value: number, quantity: Quantity) => Number(formatQuantity(value, quantity, system));
+	return [
+		{
+			name: "Story qz",
+			headers: ["Story", `z (${unit("length")})`, "Kz", "Kzt", `qz (${unit("pressure")})`],
+			rows: analysis.velocityPressure.stories.map((s) => [s.story, display(s.heightFt, "length"), s.kz, s.kzt, display(s.qzPsf, "pressure")]),
+		},
+		{
+			name: "Surface pressures",
+			headers: ["Direction", "Exposure", "Surface", "Cp case", "Cp", `p with +GCpi (${unit("pressure")})`, `p with -GCpi (${unit("pressure")})`],
+			rows: analysis.directions.flatMap((d) => d.surfaces.map((s) => [
+				d.label,
+				d.exposure,
+				s.surface,
+				s.cpCase ?? "",
+				Number(s.cp.toFixed(3)),
+				display(s.positiveGcpiPsf, "pressure"),
+				display(s.negativeGcpiPsf, "pressure"),
+			])),
+		},
+		{
+			name: "Story forces",
+			headers: ["Direction", "Story", `z (${unit("length")})`, `pW - pL (${unit("pressure")})`, `F (${unit("force")})`, `V (${unit("force")})`, `OTM (${unit("moment")})`],
+			rows: analysis.directions.flatMap((d) => d.storyForces.stories.map((s) => [
+				d.label,
+				s.story,
+				display(s.elevationFt, "length"),
+				display(s.netPressurePsf, "pressure"),
+				display(s.forceKips, "force"),
+				display(s.shearKips, "force"),
+				display(s.overturningKipFt, "moment"),
+			])),
+		},
+	];
+}
+
+// RFC 4180 CSV with CRLF line endings. The byte order mark lets spreadsheet programs
+// recognise UTF-8 unit labels such as m².
+export function formatCsv(table: ExportTable): string {
+	const lines = [table.headers, ...table.rows].map((row) => row.map(formatCsvCell).join(","));
+	return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+function formatCsvCell(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
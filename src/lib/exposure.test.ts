@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { classifySectorExposure, determineDirectionExposure, getGoverningExposure, type UpwindSector } from "./exposure";
+
+const exposureOf = (sector: Omit<UpwindSector, "startDeg">, h: number) => classifySectorExposure({ startDeg: 0, ...sector }, h).exposure;
+
+describe("classifySectorExposure", () => {
+	it("needs 1,500 ft of Surface Roughness B up to h = 30 ft and max(2,600 ft, 20h) above", () => {
+		expect(exposureOf({ roughness: "B", fetchFt: 1500 }, 30)).toBe("B");
+		expect(exposureOf({ roughness: "B", fetchFt: 1500 }, 40)).toBe("C");
+		expect(exposureOf({ roughness: "B", fetchFt: 2600 }, 40)).toBe("B");
+		// 20h = 3,000 ft at h = 150 ft
+		expect(exposureOf({ roughness: "B", fetchFt: 2600 }, 150)).toBe("C");
+	});
+
+	it("needs max(5,000 ft, 20h) of Surface Roughness D", () => {
+		expect(exposureOf({ roughness: "D", fetchFt: 5000 }, 30)).toBe("D");
+		expect(exposureOf({ roughness: "D", fetchFt: 4999 }, 30)).toBe("C");
+		expect(exposureOf({ roughness: "D", fetchFt: 5000 }, 300)).toBe("C");
+	});
+
+	it("takes Exposure D within max(600 ft, 20h) downwind of Surface Roughness D", () => {
+		expect(exposureOf({ roughness: "B", fetchFt: 3000, distanceToDFt: 600 }, 20)).toBe("D");
+		expect(exposureOf({ roughness: "C", fetchFt: 3000, distanceToDFt: 700 }, 20)).toBe("C");
+		expect(exposureOf({ roughness: "C", fetchFt: 3000, distanceToDFt: 700 }, 40)).toBe("D");
+	});
+});
+
+describe("determineDirectionExposure", () => {
+	const sectors: UpwindSector[] = [
+		{ startDeg: 0, roughness: "B", fetchFt: 3000 },
+		{ startDeg: 45, roughness: "B", fetchFt: 3000 },
+		{ startDeg: 315, roughness: "C", fetchFt: 3000 },
+	];
+
+	it("takes the exposure giving the highest loads of the sectors either side of the direction", () => {
+		expect(determineDirectionExposure(sectors, 45, 30)).toMatchObject({ azimuthDeg: 45, exposure: "B" });
+		// From north the 315°-360° sector is open country
+		expect(determineDirectionExposure(sectors, 360, 30)).toMatchObject({ azimuthDeg: 0, exposure: "C" });
+	});
+
+	it("assumes Exposure C when no sector was entered", () => {
+		expect(determineDirectionExposure(sectors, 180, 30)).toMatchObject({ exposure: "C", sectors: [] });
+	});
+
+	it("governs C&C by the most severe direction", () => {
+		const directions = [0, 45, 90].map((azimuth) => determineDirectionExposure(sectors, azimuth, 30));
+		expect(getGoverningExposure(directions)).toBe("C");
+		expect(getGoverningExposure(directions.slice(1))).toBe("B");
+	});
+});
@@ -0,0 +1,99 @@
+import { roundTo, type ExposureCategory } from "./wind";
+
+export type SurfaceRoughness = "B" | "C" | "D";
+
+export interface UpwindSector {
+	// Sector spans startDeg to startDeg + 45 (azimuth the wind blows from, clockwise from north)
+	startDeg: number;
+	// Surface roughness immediately upwind of the site
+	roughness: SurfaceRoughness;
+	// Upwind distance over which that roughness prevails, ft
+	fetchFt: number;
+	// Distance from the site to an upwind Surface Roughness D area, ft (omit when there is none)
+	distanceToDFt?: number;
+}
+
+export interface SectorExposure {
+	startDeg: number;
+	exposure: ExposureCategory;
+	reason: string;
+}
+
+export interface DirectionExposure {
+	// Wind direction (azimuth the wind blows from), degrees
+	azimuthDeg: number;
+	exposure: ExposureCategory;
+	// The two sectors 45 deg either side of the wind direction
+	sectors: SectorExposure[];
+	explanation: string[];
+}
+
+export const SECTOR_WIDTH_DEG = 45;
+
+// Exposures ordered by the loads they produce
+const EXPOSURE_RANK: Record<ExposureCategory, number> = { B: 0, C: 1, D: 2 };
+
+export function describeSector(startDeg: number): string {
+	return `${startDeg}°-${startDeg + SECTOR_WIDTH_DEG}°`;
+}
+
+// Exposure for one upwind sector per ASCE 7-22 Section 26.7.3:
+//   B: Surface Roughness B prevails upwind for 1,500 ft (h <= 30 ft) or max(2,600 ft, 20h)
+//   D: Surface Roughness D prevails upwind for max(5,000 ft, 20h), or the site lies within
+//      max(600 ft, 20h) downwind of a Surface Roughness D area (transition zone)
+//   C: all other cases
+export function classifySectorExposure(sector: UpwindSector, meanRoofHeightFt: number): SectorExposure {
+	const h = meanRoofHeightFt;
+	const label = describeSector(sector.startDeg);
+	const fetch = roundTo(sector.fetchFt, 0);
+	const dFetch = Math.max(5000, 20 * h);
+	const transition = Math.max(600, 20 * h);
+	const bFetch = h <= 30 ? 1500 : Math.max(2600, 20 * h);
+	const result = (exposure: ExposureCategory, reason: string): SectorExposure => ({ startDeg: sector.startDeg, exposure, reason: `${label}: ${reason}` });
+
+	if (sector.roughness === "D" && sector.fetchFt >= dFetch) {
+		return result("D", `Surface Roughness D for ${fetch} ft >= ${roundTo(dFetch, 0)} ft: Exposure D`);
+	}
+	if (sector.roughness !== "D" && sector.distanceToDFt !== undefined && sector.distanceToDFt <= transition) {
+		return result("D", `within ${roundTo(sector.distanceToDFt, 0)} ft <= ${roundTo(transition, 0)} ft of Surface Roughness D: Exposure D (transition)`);
+	}
+	if (sector.roughness === "B" && sector.fetchFt >= bFetch) {
+		return result("B", `Surface Roughness B for ${fetch} ft >= ${roundTo(bFetch, 0)} ft: Exposure B`);
+	}
+	if (sector.roughness === "B") {
+		return result("C", `Surface Roughness B for only ${fetch} ft < ${roundTo(bFetch, 0)} ft: Exposure C`);
+	}
+	if (sector.roughness === "D") {
+		return result("C", `Surface Roughness D for only ${fetch} ft < ${roundTo(dFetch, 0)} ft: Exposure C`);
+	}
+	return result("C", "Surface Roughness C: Exposure C");
+}
+
+// Exposure for a wind direction per Section 26.7.1: the upwind sectors extending 45 deg
+// either side of the direction are checked and the exposure giving the highest loads governs.
+// Sectors must start on multiples of 45 deg.
+export function determineDirectionExposure(sectors: UpwindSector[], azimuthDeg: number, meanRoofHeightFt: number): DirectionExposure {
+	const azimuth = normalizeAzimuth(azimuthDeg);
+	const starts = [normalizeAzimuth(azimuth - SECTOR_WIDTH_DEG), azimuth];
+	const checked = starts
+		.map((start) => sectors.find((s) => normalizeAzimuth(s.startDeg) === start))
+		.filter((s): s is UpwindSector => s !== undefined)
+		.map((s) => classifySectorExposure(s, meanRoofHeightFt));
+	const exposure = checked.reduce<ExposureCategory>((worst, s) => (EXPOSURE_RANK[s.exposure] > EXPOSURE_RANK[worst] ? s.exposure : worst), "B");
+	const explanation = checked.map((s) => s.reason);
+	if (checked.length === 0) {
+		explanation.push("No upwind sectors entered: Exposure C assumed");
+		return { azimuthDeg: azimuth, exposure: "C", sectors: checked, explanation };
+	}
+	explanation.push(`Wind from ${azimuth}°: Exposure ${exposure} governs (highest loads of the adjacent sectors)`);
+	return { azimuthDeg: azimuth, exposure, sectors: checked, explanation };
+}
+
+// Exposure giving the highest loads of several directions (used for C&C and the envelope procedure)
+export function getGoverningExposure(directions: DirectionExposure[]): ExposureCategory {
+	return directions.reduce<ExposureCategory>((worst, d) => (EXPOSURE_RANK[d.exposure] > EXPOSURE_RANK[worst] ? d.exposure : worst), "B");
+}
+
+function normalizeAzimuth(deg: number): number {
+	return ((deg % 360) + 360) % 360;
+}
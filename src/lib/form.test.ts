@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FORM, validateForm } from "./form";
+
+describe("validateForm", () => {
+	it("accepts the default form", () => {
+		expect(validateForm(DEFAULT_FORM)).toEqual({});
+	});
+
+	it("rejects an enclosure classification the edition does not have", () => {
+		expect(validateForm({ ...DEFAULT_FORM, edition: "7-16", buildingEnclosure: "partially_open" }).buildingEnclosure).toMatch(/not a classification in ASCE 7-16/);
+		expect(validateForm({ ...DEFAULT_FORM, edition: "7-22", buildingEnclosure: "partially_open" })).toEqual({});
+		expect(validateForm({ ...DEFAULT_FORM, edition: "7-10", buildingEnclosure: "partially_open", classifyFromOpenings: true })).toEqual({});
+	});
+});
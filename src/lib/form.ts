@@ -0,0 +1,465 @@
+import type { BuildingInput, StoryGeometry } from "./building";
+import { describeEnclosure, getEnclosureClassifications, type EnclosureClassification, type SurfaceOpenings } from "./enclosure";
+import { SECTOR_WIDTH_DEG, type SurfaceRoughness, type UpwindSector } from "./exposure";
+import type { StructuralSystem } from "./gust";
+import { ProjectFormatError } from "./project";
+import type { RidgeOrientation } from "./roof";
+import type { CrestSide, TopographicFeature } from "./topography";
+import { convertQuantity, formatQuantity, getUnitLabel, type Quantity, type UnitSystem } from "./units";
+import { ASCE_EDITIONS, calculateGroundElevationFactor, roundTo, type AsceEdition, type ExposureCategory, type RiskCategory } from "./wind";
+
+// Calculator input as entered, shared by the web form, project files and the command line
+export type RoofType = "flat" | "sloped";
+export type AnalysisProcedure = "directional" | "envelope";
+
+export interface OpeningFormRow {
+	name: string;
+	surface: "b_face" | "l_face" | "roof"; // b_face walls have width B, l_face walls width L
+	openingArea: string; // Ao
+	grossArea: string; // Ag; blank = from building dimensions
+}
+
+export interface SectorFormRow {
+	roughness: SurfaceRoughness; // immediately upwind
+	fetch: string; // distance over which that roughness prevails
+	distanceToD: string; // distance to an upwind Surface Roughness D area; blank = none
+}
+
+export interface StoryFormRow {
+	height: string; // blank = typical story height
+	length: string; // L; blank = the story above less its setback, the roof L for the top story
+	width: string; // B; blank likewise
+	setback: string; // distance the walls step in from the story below on every side; blank = none
+}
+
+// Speeds, lengths, areas and volumes are entered in the form's unit system and converted
+// to US customary units before they reach the calculation engine
+export interface FormState {
+	unitSystem: UnitSystem;
+	edition: AsceEdition;
+	procedure: AnalysisProcedure; // Chapter 27 directional or Chapter 28 envelope (low-rise)
+	windSpeed: string; // V, mph or m/s per unitSystem
+	exposure: ExposureCategory;
+	determineExposure: boolean; // exposure per direction from the upwind sectors (Section 26.7)
+	lengthAxisAzimuth: string; // azimuth of the building's L axis, degrees (0, 45, 90 or 135)
+	sectors: SectorFormRow[]; // eight 45° sectors clockwise from north
+	numStories: string;
+	storyHeight: string; // typical story height
+	useStoryTable: boolean; // per-story heights, plans and setbacks from storyLevels
+	storyLevels: StoryFormRow[]; // ground story first
+	directionalityFactor: string;
+	riskCategory: RiskCategory;
+	roofType: RoofType;
+	roofSlopeDeg: string; // theta, degrees (sloped roofs)
+	ridgeOrientation: RidgeOrientation;
+	meanRoofHeight: string; // h; blank = eave height + half the ridge rise
+	buildingEnclosure: EnclosureClassification;
+	classifyFromOpenings: boolean;
+	openings: OpeningFormRow[];
+	useReductionFactor: boolean;
+	internalVolume: string; // Vi; blank = L × B × h
+	totalOpeningArea: string; // Aog; blank = sum of entered openings
+	roofLength: string; // L dimension (parallel to wind)
+	roofWidth: string; // B dimension (perpendicular to wind, windward edge)
+	wallEvaluationHeight: string; // Height at which to evaluate wall pressures
+	useManualKz: boolean;
+	manualKz: string;
+	effectiveWindArea: string; // C&C effective wind area
+	useGroundElevationFactor: boolean; // false = conservative Ke = 1.0
+	siteElevation: string; // ground elevation above sea level
+	siteElevationUnit: "ft" | "m";
+	useTopography: boolean;
+	topoFeature: TopographicFeature;
+	topoHillHeight: string; // H
+	topoHalfLength: string; // Lh
+	topoCrestDistance: string; // x
+	topoSide: CrestSide;
+	structuralSystem: StructuralSystem;
+	showLoadCases: boolean;
+	useEnteredFrequency: boolean;
+	naturalFrequency: string; // n1, Hz
+	dampingRatio: string; // beta, fraction of critical
+}
+
+// Fields a single value can hold, as opposed to the row lists
+export type ScalarField = { [K in keyof FormState]: FormState[K] extends string | boolean ? K : never }[keyof FormState];
+
+// Accepted values of the fields that take one of a fixed set of options
+export const FIELD_CHOICES: Partial<Record<ScalarField, readonly string[]>> = {
+	unitSystem: ["imperial", "metric"],
+	edition: ASCE_EDITIONS,
+	procedure: ["directional", "envelope"],
+	exposure: ["B", "C", "D"],
+	riskCategory: ["I", "II", "III", "IV"],
+	roofType: ["flat", "sloped"],
+	ridgeOrientation: ["normal_to_wind", "parallel_to_wind"],
+	buildingEnclosure: ["open", "partially_open", "partially_enclosed", "enclosed"],
+	siteElevationUnit: ["ft", "m"],
+	topoFeature: ["ridge", "escarpment", "hill"],
+	topoSide: ["upwind", "downwind"],
+	structuralSystem: ["steel_moment_frame", "concrete_moment_frame", "other"],
+};
+
+// Blank rows of the row lists, with the accepted values of their option fields
+const SECTOR_ROW: SectorFormRow = { roughness: "B", fetch: "", distanceToD: "" };
+const OPENING_ROW: OpeningFormRow = { name: "", surface: "b_face", openingArea: "", grossArea: "" };
+const STORY_ROW: StoryFormRow = { height: "", length: "", width: "", setback: "" };
+const SECTOR_ROW_CHOICES: Partial<Record<keyof SectorFormRow, readonly string[]>> = { roughness: ["B", "C", "D"] };
+const OPENING_ROW_CHOICES: Partial<Record<keyof OpeningFormRow, readonly string[]>> = { surface: ["b_face", "l_face", "roof"] };
+
+export const DEFAULT_FORM: FormState = {
+	unitSystem: "imperial",
+	edition: "7-22",
+	procedure: "directional",
+	windSpeed: "115",
+	exposure: "B",
+	determineExposure: false,
+	lengthAxisAzimuth: "0",
+	sectors: Array.from({ length: 8 }, () => ({ ...SECTOR_ROW, fetch: "3000" })),
+	numStories: "3",
+	storyHeight: "10",
+	useStoryTable: false,
+	storyLevels: [],
+	directionalityFactor: "0.85",
+	riskCategory: "II",
+	roofType: "flat",
+	roofSlopeDeg: "20",
+	ridgeOrientation: "normal_to_wind",
+	meanRoofHeight: "",
+	buildingEnclosure: "enclosed",
+	classifyFromOpenings: false,
+	openings: [
+		{ name: "Wall 1 (B face)", surface: "b_face", openingArea: "", grossArea: "" },
+		{ name: "Wall 2 (L face)", surface: "l_face", openingArea: "", grossArea: "" },
+		{ name: "Wall 3 (B face)", surface: "b_face", openingArea: "", grossArea: "" },
+		{ name: "Wall 4 (L face)", surface: "l_face", openingArea: "", grossArea: "" },
+		{ name: "Roof", surface: "roof", openingArea: "", grossArea: "" },
+	],
+	useReductionFactor: false,
+	internalVolume: "",
+	totalOpeningArea: "",
+	roofLength: "100",
+	roofWidth: "50",
+	wallEvaluationHeight: "15", // Default to mid-height of 3-story building
+	useManualKz: false,
+	manualKz: "",
+	effectiveWindArea: "10",
+	useGroundElevationFactor: false,
+	siteElevation: "0",
+	siteElevationUnit: "ft",
+	useTopography: false,
+	topoFeature: "escarpment",
+	topoHillHeight: "80",
+	topoHalfLength: "200",
+	topoCrestDistance: "50",
+	topoSide: "downwind",
+	structuralSystem: "steel_moment_frame",
+	showLoadCases: true,
+	useEnteredFrequency: false,
+	naturalFrequency: "",
+	dampingRatio: "0.02",
+};
+
+// Calculation input from the US customary form; blank entries take the engine defaults. qz is
+// evaluated in the system the form was entered in.
+export function getBuildingInput(form: FormState, enteredUnits: UnitSystem = form.unitSystem): BuildingInput {
+	return {
+		edition: form.edition,
+		windSpeedMph: Number(form.windSpeed),
+		riskCategory: form.riskCategory,
+		directionalityFactor: Number(form.directionalityFactor),
+		exposure: form.exposure,
+		upwindSectors: form.determineExposure ? getUpwindSectors(form) : undefined,
+		lengthAxisAzimuthDeg: Number(form.lengthAxisAzimuth),
+		numStories: form.useStoryTable ? form.storyLevels.length : Math.floor(Number(form.numStories)),
+		storyHeightFt: Number(form.storyHeight),
+		lengthFt: Number(form.roofLength),
+		widthFt: Number(form.roofWidth),
+		stories: form.useStoryTable ? getStoryTable(form) : undefined,
+		roofSlopeDeg: form.roofType === "flat" ? 0 : Number(form.roofSlopeDeg),
+		ridgeOrientation: form.ridgeOrientation,
+		meanRoofHeightFt: form.meanRoofHeight === "" ? undefined : Number(form.meanRoofHeight),
+		wallEvaluationHeightFt: Number(form.wallEvaluationHeight),
+		overrideKz: form.useManualKz && form.manualKz !== "" ? Number(form.manualKz) : undefined,
+		groundElevationFactor: getGroundElevationFactor(form),
+		topography: form.useTopography
+			? {
+				feature: form.topoFeature,
+				hillHeightFt: Number(form.topoHillHeight),
+				halfHillLengthFt: Number(form.topoHalfLength),
+				crestDistanceFt: Number(form.topoCrestDistance),
+				side: form.topoSide,
+			}
+			: undefined,
+		enclosure: form.buildingEnclosure,
+		openings: form.classifyFromOpenings ? getEnclosureSurfaces(form) : undefined,
+		internalPressureReduction: form.useReductionFactor
+			? {
+				internalVolumeCuFt: form.internalVolume === "" ? undefined : Number(form.internalVolume),
+				totalOpeningAreaSqFt: getTotalOpeningArea(form),
+			}
+			: undefined,
+		structuralSystem: form.structuralSystem,
+		naturalFrequencyHz: form.useEnteredFrequency ? Number(form.naturalFrequency) : undefined,
+		dampingRatio: Number(form.dampingRatio),
+		effectiveWindAreaSqFt: Number(form.effectiveWindArea),
+		unitSystem: enteredUnits,
+	};
+}
+
+// Ground elevation factor Ke (Section 26.9); 1.0 when not reduced or for ASCE 7-10, which has no Ke
+export function getGroundElevationFactor(form: FormState): number {
+	if (form.edition === "7-10" || !form.useGroundElevationFactor) return 1.0;
+	const elevation = Number(form.siteElevation);
+	return calculateGroundElevationFactor(form.siteElevationUnit === "m" ? elevation / 0.3048 : elevation);
+}
+
+// Story heights and plans from the story table, ground story first. Plans are worked down from
+// the roof: a blank cell takes the story above, widened by that story's setback on both sides.
+export function getStoryTable(form: FormState): StoryGeometry[] {
+	const typicalHeight = Number(form.storyHeight);
+	let above = { lengthFt: Number(form.roofLength), widthFt: Number(form.roofWidth), setbackFt: 0 };
+	return [...form.storyLevels].reverse().map((row) => {
+		const story = {
+			heightFt: row.height === "" ? typicalHeight : Number(row.height),
+			lengthFt: row.length === "" ? above.lengthFt + 2 * above.setbackFt : Number(row.length),
+			widthFt: row.width === "" ? above.widthFt + 2 * above.setbackFt : Number(row.width),
+		};
+		above = { lengthFt: story.lengthFt, widthFt: story.widthFt, setbackFt: row.setback === "" ? 0 : Number(row.setback) };
+		return story;
+	}).reverse();
+}
+
+// Height of the walls: the sum of the story heights
+function getEaveHeight(form: FormState): number {
+	if (form.useStoryTable) return getStoryTable(form).reduce((sum, s) => sum + s.heightFt, 0);
+	return Math.floor(Number(form.numStories)) * Number(form.storyHeight);
+}
+
+// Story table rows for a number of stories; rows are added or dropped at the top
+export function resizeStoryTable(rows: StoryFormRow[], count: number): StoryFormRow[] {
+	if (count <= rows.length) return rows.slice(0, count);
+	return [...rows, ...Array.from({ length: count - rows.length }, () => ({ ...STORY_ROW }))];
+}
+
+// Upwind sectors from the form, one per 45° clockwise from north
+function getUpwindSectors(form: FormState): UpwindSector[] {
+	return form.sectors.map((sector, idx) => ({
+		startDeg: idx * SECTOR_WIDTH_DEG,
+		roughness: sector.roughness,
+		fetchFt: Number(sector.fetch),
+		distanceToDFt: sector.distanceToD === "" ? undefined : Number(sector.distanceToD),
+	}));
+}
+
+// Opening and gross areas per envelope surface; a blank Ag uses the building geometry
+export function getEnclosureSurfaces(form: FormState): SurfaceOpenings[] {
+	const L = Number(form.roofLength);
+	const B = Number(form.roofWidth);
+	const stories = form.useStoryTable ? getStoryTable(form) : null;
+	// Wall areas add up the stories, which may differ in plan
+	const wallArea = (face: "b_face" | "l_face") => {
+		const dimension = (plan: { lengthFt: number; widthFt: number }) => (face === "b_face" ? plan.widthFt : plan.lengthFt);
+		return stories ? stories.reduce((sum, s) => sum + dimension(s) * s.heightFt, 0) : dimension({ lengthFt: L, widthFt: B }) * getEaveHeight(form);
+	};
+	return form.openings.map((o) => {
+		const defaultGross = o.surface === "roof" ? L * B : wallArea(o.surface);
+		return {
+			name: o.name,
+			openingAreaSqFt: o.openingArea === "" ? 0 : Number(o.openingArea),
+			grossAreaSqFt: o.grossArea === "" ? defaultGross : Number(o.grossArea),
+			isWall: o.surface !== "roof",
+		};
+	});
+}
+
+// Total opening area Aog; a blank entry sums the wall and roof openings
+export function getTotalOpeningArea(form: FormState): number {
+	if (form.totalOpeningArea !== "") return Number(form.totalOpeningArea);
+	return getEnclosureSurfaces(form).reduce((sum, s) => sum + s.openingAreaSqFt, 0);
+}
+
+// Re-express every dimensional input in another unit system; blank entries stay blank.
+// Pass decimals to round the converted entries for display.
+export function convertFormUnits(form: FormState, unitSystem: UnitSystem, decimals?: number): FormState {
+	if (form.unitSystem === unitSystem) return form;
+	const convert = (value: string, quantity: Quantity) => {
+		if (value === "" || !isFinite(Number(value))) return value;
+		const converted = convertQuantity(Number(value), quantity, form.unitSystem, unitSystem);
+		return String(decimals === undefined ? converted : roundTo(converted, decimals));
+	};
+	return {
+		...form,
+		unitSystem,
+		windSpeed: convert(form.windSpeed, "speed"),
+		storyHeight: convert(form.storyHeight, "length"),
+		meanRoofHeight: convert(form.meanRoofHeight, "length"),
+		roofLength: convert(form.roofLength, "length"),
+		roofWidth: convert(form.roofWidth, "length"),
+		wallEvaluationHeight: convert(form.wallEvaluationHeight, "length"),
+		topoHillHeight: convert(form.topoHillHeight, "length"),
+		topoHalfLength: convert(form.topoHalfLength, "length"),
+		topoCrestDistance: convert(form.topoCrestDistance, "length"),
+		effectiveWindArea: convert(form.effectiveWindArea, "area"),
+		totalOpeningArea: convert(form.totalOpeningArea, "area"),
+		internalVolume: convert(form.internalVolume, "volume"),
+		openings: form.openings.map((o) => ({ ...o, openingArea: convert(o.openingArea, "area"), grossArea: convert(o.grossArea, "area") })),
+		sectors: form.sectors.map((sector) => ({ ...sector, fetch: convert(sector.fetch, "length"), distanceToD: convert(sector.distanceToD, "length") })),
+		storyLevels: form.storyLevels.map((row) => ({
+			height: convert(row.height, "length"),
+			length: convert(row.length, "length"),
+			width: convert(row.width, "length"),
+			setback: convert(row.setback, "length"),
+		})),
+	};
+}
+
+export type FormErrors = Partial<Record<keyof FormState, string>>;
+
+// Why entries are outside the calculator's accepted ranges, keyed by field; empty when every entry
+// is acceptable. Limits are checked in US customary units and quoted in the form's own units.
+export function validateForm(form: FormState): FormErrors {
+	const f = convertFormUnits(form, "imperial");
+	const limit = (value: number, quantity: Quantity) => `${Number(formatQuantity(value, quantity, form.unitSystem))} ${getUnitLabel(quantity, form.unitSystem)}`;
+	const errors: FormErrors = {};
+
+	if (!(toNumber(f.windSpeed) > 0 && toNumber(f.windSpeed) < 300)) errors.windSpeed = `Enter a wind speed above 0 and below ${limit(300, "speed")}`;
+	const n = Math.floor(toNumber(f.numStories));
+	if (!(n >= 1 && n <= 200)) errors.numStories = "Enter 1 to 200 stories";
+	const sh = toNumber(f.storyHeight);
+	if (!(sh > 4 && sh <= 20)) errors.storyHeight = `Story height must be more than ${limit(4, "length")} and at most ${limit(20, "length")}`;
+	const kd = toNumber(f.directionalityFactor);
+	if (!(kd > 0 && kd <= 1)) errors.directionalityFactor = "Kd must be more than 0 and at most 1";
+	if (!(toNumber(f.roofLength) > 0 && toNumber(f.roofLength) <= 1000)) errors.roofLength = `L must be more than 0 and at most ${limit(1000, "length")}`;
+	if (!(toNumber(f.roofWidth) > 0 && toNumber(f.roofWidth) <= 1000)) errors.roofWidth = `B must be more than 0 and at most ${limit(1000, "length")}`;
+	if (f.useStoryTable) {
+		const storyErrors = validateStoryTable(f, limit);
+		if (storyErrors.length > 0) errors.storyLevels = storyErrors.join("; ");
+	}
+	const wallHeight = toNumber(f.wallEvaluationHeight);
+	const eaveHeight = getEaveHeight(f);
+	if (!(wallHeight > 0)) {
+		errors.wallEvaluationHeight = "Enter a wall evaluation height above 0";
+	} else if (!errors.numStories && !errors.storyHeight && !errors.storyLevels && !errors.roofLength && !errors.roofWidth && wallHeight > eaveHeight) {
+		errors.wallEvaluationHeight = `Wall evaluation height must be on the building, at most ${limit(eaveHeight, "length")}`;
+	}
+	const area = toNumber(f.effectiveWindArea);
+	if (!(area > 0 && area <= 10000)) errors.effectiveWindArea = `Effective wind area must be more than 0 and at most ${limit(10000, "area")}`;
+	const slope = toNumber(f.roofSlopeDeg);
+	if (f.roofType === "sloped" && !(slope > 0 && slope < 90)) errors.roofSlopeDeg = "Roof slope must be between 0 and 90 degrees";
+	const h = toNumber(f.meanRoofHeight);
+	if (f.meanRoofHeight !== "" && !(h > 0 && h <= 2000)) errors.meanRoofHeight = `Mean roof height must be blank, or more than 0 and at most ${limit(2000, "length")}`;
+	const kz = toNumber(f.manualKz);
+	if (f.useManualKz && !(kz > 0.3 && kz < 3)) errors.manualKz = "Manual Kz must be between 0.3 and 3";
+	if (f.determineExposure) {
+		const sectorErrors = f.sectors.flatMap((sector, idx) => {
+			if (!(toNumber(sector.fetch) >= 0)) return [`sector ${idx + 1} needs a fetch of 0 or more`];
+			if (sector.distanceToD !== "" && !(toNumber(sector.distanceToD) >= 0)) return [`sector ${idx + 1} distance to Exposure D must be blank or 0 or more`];
+			return [];
+		});
+		if (sectorErrors.length > 0) errors.sectors = `Upwind ${sectorErrors.join("; ")}`;
+	}
+	if (f.useGroundElevationFactor && !isFinite(toNumber(f.siteElevation))) errors.siteElevation = "Enter the ground elevation";
+	if (f.useTopography) {
+		if (!(toNumber(f.topoHillHeight) > 0)) errors.topoHillHeight = "Hill height H must be more than 0";
+		if (!(toNumber(f.topoHalfLength) > 0)) errors.topoHalfLength = "Lh must be more than 0";
+		if (!(toNumber(f.topoCrestDistance) >= 0)) errors.topoCrestDistance = "Distance from the crest must be 0 or more";
+	}
+	if (!f.classifyFromOpenings && !getEnclosureClassifications(f.edition).includes(f.buildingEnclosure)) {
+		errors.buildingEnclosure = `${describeEnclosure(f.buildingEnclosure)} is not a classification in ASCE ${f.edition}; choose another enclosure or ASCE 7-22`;
+	}
+	if (f.classifyFromOpenings) {
+		const openingErrors = f.openings.flatMap((o) => [
+			...(o.openingArea !== "" && !(toNumber(o.openingArea) >= 0) ? [`${o.name} opening area must be blank or 0 or more`] : []),
+			...(o.grossArea !== "" && !(toNumber(o.grossArea) > 0) ? [`${o.name} gross area must be blank or more than 0`] : []),
+		]);
+		if (openingErrors.length > 0) errors.openings = openingErrors.join("; ");
+	}
+	if (f.useReductionFactor) {
+		if (f.internalVolume !== "" && !(toNumber(f.internalVolume) > 0)) errors.internalVolume = "Internal volume must be blank or more than 0";
+		if (f.totalOpeningArea !== "" && !(toNumber(f.totalOpeningArea) > 0)) errors.totalOpeningArea = "Total opening area must be blank or more than 0";
+	}
+	const damping = toNumber(f.dampingRatio);
+	if (!(damping > 0 && damping <= 0.2)) errors.dampingRatio = "Damping ratio must be more than 0 and at most 0.2";
+	if (f.useEnteredFrequency && !(toNumber(f.naturalFrequency) > 0)) errors.naturalFrequency = "Natural frequency must be more than 0";
+	return errors;
+}
+
+// Story table entries of a US customary form, and the plans its setbacks lead to
+function validateStoryTable(f: FormState, limit: (value: number, quantity: Quantity) => string): string[] {
+	const n = Math.floor(toNumber(f.numStories));
+	// An invalid number of stories is reported on its own
+	if (!(n >= 1 && n <= 200)) return [];
+	if (f.storyLevels.length !== n) return [`The story table lists ${f.storyLevels.length} stories, not ${f.numStories}`];
+	const rowErrors = f.storyLevels.flatMap((row, idx) => [
+		...(row.height !== "" && !(toNumber(row.height) > 4 && toNumber(row.height) <= 60) ? [`story ${idx + 1} height must be blank, or more than ${limit(4, "length")} and at most ${limit(60, "length")}`] : []),
+		...(row.length !== "" && !(toNumber(row.length) > 0 && toNumber(row.length) <= 1000) ? [`story ${idx + 1} L must be blank, or more than 0 and at most ${limit(1000, "length")}`] : []),
+		...(row.width !== "" && !(toNumber(row.width) > 0 && toNumber(row.width) <= 1000) ? [`story ${idx + 1} B must be blank, or more than 0 and at most ${limit(1000, "length")}`] : []),
+		...(row.setback !== "" && !(toNumber(row.setback) >= 0) ? [`story ${idx + 1} setback must be blank or 0 or more`] : []),
+	]);
+	if (rowErrors.length > 0) return rowErrors;
+	// Setbacks widen the stories below; each plan must stay within the accepted dimensions.
+	// Only the lowest story too large is reported.
+	const stories = getStoryTable(f);
+	const idx = stories.findIndex((s) => s.lengthFt > 1000 || s.widthFt > 1000);
+	if (idx < 0) return [];
+	return [`story ${idx + 1} plan after setbacks, ${limit(stories[idx].lengthFt, "length")} × ${limit(stories[idx].widthFt, "length")}, exceeds ${limit(1000, "length")}`];
+}
+
+// Whether every entry is within the calculator's accepted ranges
+export function isFormValid(form: FormState): boolean {
+	return Object.keys(validateForm(form)).length === 0;
+}
+
+// Form from a project file or link. Fields the input lacks take their defaults; values of the
+// wrong type, unknown options and malformed rows are rejected with a ProjectFormatError.
+export function readFormInput(input: Record<string, unknown>): FormState {
+	const form: Record<string, unknown> = { ...DEFAULT_FORM };
+	for (const field of Object.keys(DEFAULT_FORM) as Array<keyof FormState>) {
+		const value = input[field];
+		if (value === undefined) continue;
+		if (field === "sectors") {
+			const sectors = readRows(field, value, SECTOR_ROW, SECTOR_ROW_CHOICES);
+			if (sectors.length !== DEFAULT_FORM.sectors.length) throw new ProjectFormatError(`Project input ${field} must have ${DEFAULT_FORM.sectors.length} rows`);
+			form[field] = sectors;
+		} else if (field === "openings") {
+			form[field] = readRows(field, value, OPENING_ROW, OPENING_ROW_CHOICES);
+		} else if (field === "storyLevels") {
+			form[field] = readRows(field, value, STORY_ROW, {});
+		} else {
+			form[field] = readValue(field, value, DEFAULT_FORM[field], FIELD_CHOICES[field]);
+		}
+	}
+	// A story table in use has one row per story
+	const { useStoryTable, numStories, storyLevels } = form as unknown as FormState;
+	if (useStoryTable && storyLevels.length !== Math.floor(Number(numStories))) {
+		throw new ProjectFormatError(`Project input storyLevels has ${storyLevels.length} rows for ${numStories} stories`);
+	}
+	return form as unknown as FormState;
+}
+
+// Entry as a number; NaN for blank and non-numeric entries, which fail every range check
+function toNumber(value: string): number {
+	const n = Number(value);
+	return value.trim() === "" || !isFinite(n) ? NaN : n;
+}
+
+// List of rows checked field by field against a blank row; fields a row lacks stay blank
+function readRows<R extends object>(field: string, value: unknown, blank: R, choices: Partial<Record<keyof R, readonly string[]>>): R[] {
+	if (!Array.isArray(value)) throw new ProjectFormatError(`Project input ${field} must be a list`);
+	return value.map((row: unknown, idx) => {
+		if (typeof row !== "object" || row === null || Array.isArray(row)) throw new ProjectFormatError(`Project input ${field} row ${idx + 1} must be an object`);
+		const entries = Object.entries(blank).map(([key, blankValue]) => {
+			const cell = (row as Record<string, unknown>)[key];
+			return [key, cell === undefined ? blankValue : readValue(`${field} row ${idx + 1} ${key}`, cell, blankValue, choices[key as keyof R])];
+		});
+		return Object.fromEntries(entries) as R;
+	});
+}
+
+// Value of the same type as its default and, for option fields, one of the options
+function readValue(field: string, value: unknown, defaultValue: unknown, choices: readonly string[] | undefined): unknown {
+	if (typeof value !== typeof defaultValue) throw new ProjectFormatError(`Project input ${field} must be a ${typeof defaultValue}, not ${JSON.stringify(value)}`);
+	if (choices && !choices.includes(value as string)) throw new ProjectFormatError(`Project input ${field} must be one of ${choices.join(", ")}, not ${JSON.stringify(value)}`);
+	return value;
+}
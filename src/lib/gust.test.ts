@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { calculateGustEffectFactor, estimateNaturalFrequency, type GustInput } from "./gust";
+
+// 300 ft tower, 100 ft × 100 ft, Exposure C, V = 115 mph, 1.5% damping
+const tower: GustInput = { exposure: "C", windSpeedMph: 115, heightFt: 300, widthFt: 100, lengthFt: 100, naturalFrequencyHz: 0.4, structuralSystem: "other", dampingRatio: 0.015 };
+
+describe("calculateGustEffectFactor", () => {
+	it("computes Gf of Eq. 26.11-10 for a flexible building", () => {
+		// z̄ = 180 ft, Iz = 0.20 (33/180)^(1/6) = 0.1507, Lz = 500 (180/33)^(1/5) = 702 ft,
+		// V̄z̄ = 0.65 (180/33)^(1/6.5) × 115 × 88/60 = 142.3 ft/s, R = 0.6471, gR = 3.965
+		const gust = calculateGustEffectFactor(tower);
+		expect(gust).toMatchObject({ flexible: true, zBarFt: 180, iz: 0.1507, lzFt: 702, q: 0.8327, r: 0.6471, gR: 3.965, gustFactor: 0.978 });
+	});
+
+	it("computes G of Eq. 26.11-6 for a rigid building", () => {
+		const gust = calculateGustEffectFactor({ ...tower, naturalFrequencyHz: 1.5 });
+		expect(gust).toMatchObject({ flexible: false, gustFactor: 0.853 });
+		expect(gust.r).toBeUndefined();
+	});
+
+	it("estimates n1 from the structural system when none is entered", () => {
+		const gust = calculateGustEffectFactor({ ...tower, naturalFrequencyHz: undefined, structuralSystem: "steel_moment_frame" });
+		expect(gust).toMatchObject({ frequencyEstimated: true, naturalFrequencyHz: 0.232, flexible: true });
+	});
+});
+
+describe("estimateNaturalFrequency", () => {
+	it("uses the Section 26.11.3 approximate lower bounds", () => {
+		expect(estimateNaturalFrequency("steel_moment_frame", 300)).toBeCloseTo(0.232, 3);
+		expect(estimateNaturalFrequency("concrete_moment_frame", 300)).toBeCloseTo(0.256, 3);
+		expect(estimateNaturalFrequency("other", 300)).toBeCloseTo(0.25, 3);
+	});
+});
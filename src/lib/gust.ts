@@ -0,0 +1,229 @@
+import { formatTraceValue, getClause, substituteInBothSystems, type TraceEntry } from "./trace";
+import type { UnitSystem } from "./units";
+import { roundTo, type AsceEdition, type ExposureCategory } from "./wind";
+
+export type StructuralSystem = "steel_moment_frame" | "concrete_moment_frame" | "other";
+
+export interface GustInput {
+	exposure: ExposureCategory;
+	// Basic wind speed V, mph
+	windSpeedMph: number;
+	// Mean roof height h, ft
+	heightFt: number;
+	// Horizontal dimension normal to wind B, ft
+	widthFt: number;
+	// Horizontal dimension parallel to wind L, ft
+	lengthFt: number;
+	// Fundamental natural frequency n1, Hz; estimated from structuralSystem when omitted
+	naturalFrequencyHz?: number;
+	structuralSystem: StructuralSystem;
+	// Damping ratio beta as a fraction of critical (e.g. 0.02 for 2%)
+	dampingRatio: number;
+}
+
+export interface GustResult {
+	gustFactor: number; // G for rigid, Gf for flexible
+	flexible: boolean;
+	naturalFrequencyHz: number;
+	frequencyEstimated: boolean;
+	zBarFt: number;
+	iz: number;
+	lzFt: number;
+	q: number;
+	// Resonant response terms, flexible buildings only
+	r?: number;
+	gR?: number;
+	notes: string[];
+}
+
+interface TerrainConstants {
+	bBar: number;
+	alphaBar: number;
+	c: number;
+	lengthScaleFt: number; // l
+	epsilonBar: number;
+	zMinFt: number;
+}
+
+// Gust factors gQ and gv per ASCE 7-22 Section 26.11.4
+const G_Q = 3.4;
+const G_V = 3.4;
+
+// ASCE 7-22 Section 26.11: rigid buildings (n1 >= 1 Hz) use G from Eq. 26.11-6,
+// flexible or dynamically sensitive buildings use Gf from Eq. 26.11-10
+export function calculateGustEffectFactor(input: GustInput): GustResult {
+	const { exposure, windSpeedMph, heightFt: h, widthFt: B, lengthFt: L, dampingRatio } = input;
+	const t = getTerrainConstants(exposure);
+	const notes: string[] = [];
+
+	const frequencyEstimated = !(Number.isFinite(input.naturalFrequencyHz ?? NaN) && (input.naturalFrequencyHz as number) > 0);
+	const n1 = frequencyEstimated ? estimateNaturalFrequency(input.structuralSystem, h) : (input.naturalFrequencyHz as number);
+	if (frequencyEstimated) {
+		notes.push(`n1 estimated per Section 26.11.3 (${describeSystem(input.structuralSystem)}): ${n1.toFixed(3)} Hz`);
+	}
+
+	const zBar = Math.max(0.6 * h, t.zMinFt);
+	const iz = t.c * Math.pow(33 / zBar, 1 / 6);
+	const lz = t.lengthScaleFt * Math.pow(zBar / 33, t.epsilonBar);
+	const q = Math.sqrt(1 / (1 + 0.63 * Math.pow((B + h) / lz, 0.63)));
+
+	if (n1 >= 1) {
+		const g = 0.925 * (1 + 1.7 * G_Q * iz * q) / (1 + 1.7 * G_V * iz);
+		notes.push("Rigid building (n1 >= 1 Hz): G = 0.925 * (1 + 1.7 gQ Iz Q) / (1 + 1.7 gv Iz)");
+		return {
+			gustFactor: roundTo(g, 3),
+			flexible: false,
+			naturalFrequencyHz: roundTo(n1, 3),
+			frequencyEstimated,
+			zBarFt: roundTo(zBar, 2),
+			iz: roundTo(iz, 4),
+			lzFt: roundTo(lz, 1),
+			q: roundTo(q, 4),
+			notes,
+		};
+	}
+
+	// Mean hourly wind speed at z-bar, ft/s (Eq. 26.11-16)
+	const vzBar = t.bBar * Math.pow(zBar / 33, t.alphaBar) * windSpeedMph * (88 / 60);
+	const n1Reduced = n1 * lz / vzBar;
+	const rn = 7.47 * n1Reduced / Math.pow(1 + 10.3 * n1Reduced, 5 / 3);
+	const rh = resonanceFactor(4.6 * n1 * h / vzBar);
+	const rb = resonanceFactor(4.6 * n1 * B / vzBar);
+	const rl = resonanceFactor(15.4 * n1 * L / vzBar);
+	const r = Math.sqrt((1 / dampingRatio) * rn * rh * rb * (0.53 + 0.47 * rl));
+	const logTerm = Math.sqrt(2 * Math.log(3600 * n1));
+	const gR = logTerm + 0.577 / logTerm;
+	const gf = 0.925 * (1 + 1.7 * iz * Math.sqrt(G_Q * G_Q * q * q + gR * gR * r * r)) / (1 + 1.7 * G_V * iz);
+	notes.push("Flexible building (n1 < 1 Hz): Gf = 0.925 * (1 + 1.7 Iz sqrt(gQ^2 Q^2 + gR^2 R^2)) / (1 + 1.7 gv Iz)");
+
+	return {
+		gustFactor: roundTo(gf, 3),
+		flexible: true,
+		naturalFrequencyHz: roundTo(n1, 3),
+		frequencyEstimated,
+		zBarFt: roundTo(zBar, 2),
+		iz: roundTo(iz, 4),
+		lzFt: roundTo(lz, 1),
+		q: roundTo(q, 4),
+		r: roundTo(r, 4),
+		gR: roundTo(gR, 3),
+		notes,
+	};
+}
+
+// Gust-effect factor and the turbulence terms behind it as trace entries, substituted with
+// the dimensions and terrain constants of the gust input
+export function traceGustEffectFactor(gust: GustResult, input: GustInput, edition: AsceEdition): TraceEntry[] {
+	const clause = getClause("g", edition);
+	const t = getTerrainConstants(input.exposure);
+	// Reference height of 33 ft, 10 m in the SI equations
+	const reference = (system: UnitSystem) => (system === "metric" ? 10 : 33);
+	const trace: TraceEntry[] = [
+		{ symbol: "n1", description: `Natural frequency, Hz${gust.frequencyEstimated ? " (estimated)" : ""}`, value: gust.naturalFrequencyHz, quantity: null, equation: gust.frequencyEstimated ? "Approximate lower bound na" : "Input", clause },
+		{
+			symbol: "z̄",
+			description: "Equivalent height of the structure",
+			value: gust.zBarFt,
+			quantity: "length",
+			equation: "z̄ = max(0.6h, zmin)",
+			...substituteInBothSystems((system) => `z̄ = max(0.6 × ${formatTraceValue(input.heightFt, "length", system)}, ${formatTraceValue(t.zMinFt, "length", system)})`),
+			clause,
+		},
+		{
+			symbol: "Iz",
+			description: "Intensity of turbulence at z̄",
+			value: gust.iz,
+			quantity: null,
+			equation: "Iz = c (33/z̄)^(1/6)",
+			siEquation: "Iz = c (10/z̄)^(1/6)",
+			...substituteInBothSystems((system) => `Iz = ${t.c} (${reference(system)}/${formatTraceValue(gust.zBarFt, "length", system)})^(1/6)`),
+			clause,
+		},
+		{
+			symbol: "Lz",
+			description: "Integral length scale of turbulence at z̄",
+			value: gust.lzFt,
+			quantity: "length",
+			equation: "Lz = l (z̄/33)^ε̄",
+			siEquation: "Lz = l (z̄/10)^ε̄",
+			...substituteInBothSystems((system) => `Lz = ${formatTraceValue(t.lengthScaleFt, "length", system)} (${formatTraceValue(gust.zBarFt, "length", system)}/${reference(system)})^${roundTo(t.epsilonBar, 3)}`),
+			clause,
+		},
+		{
+			symbol: "Q",
+			description: "Background response factor",
+			value: gust.q,
+			quantity: null,
+			equation: "Q = sqrt(1 / (1 + 0.63 ((B + h)/Lz)^0.63))",
+			...substituteInBothSystems((system) => `Q = sqrt(1 / (1 + 0.63 ((${formatTraceValue(input.widthFt, "length", system)} + ${formatTraceValue(input.heightFt, "length", system)})/${formatTraceValue(gust.lzFt, "length", system)})^0.63))`),
+			clause,
+		},
+	];
+	if (gust.flexible && gust.r !== undefined && gust.gR !== undefined) {
+		const n1 = gust.naturalFrequencyHz;
+		trace.push(
+			{ symbol: "R", description: "Resonant response factor", value: gust.r, quantity: null, equation: "R = sqrt((1/β) Rn Rh RB (0.53 + 0.47 RL))", clause },
+			{ symbol: "gR", description: "Peak factor for resonant response", value: gust.gR, quantity: null, equation: "gR = sqrt(2 ln(3600 n1)) + 0.577 / sqrt(2 ln(3600 n1))", substituted: `gR = sqrt(2 ln(3600 × ${n1})) + 0.577 / sqrt(2 ln(3600 × ${n1}))`, clause },
+			{
+				symbol: "Gf",
+				description: "Gust-effect factor, flexible building (n1 < 1 Hz)",
+				value: gust.gustFactor,
+				quantity: null,
+				equation: "Gf = 0.925 (1 + 1.7 Iz sqrt(gQ^2 Q^2 + gR^2 R^2)) / (1 + 1.7 gv Iz)",
+				substituted: `Gf = 0.925 (1 + 1.7 × ${gust.iz} × sqrt(${G_Q}^2 × ${gust.q}^2 + ${gust.gR}^2 × ${gust.r}^2)) / (1 + 1.7 × ${G_V} × ${gust.iz})`,
+				clause,
+			},
+		);
+	} else {
+		trace.push({
+			symbol: "G",
+			description: "Gust-effect factor, rigid building",
+			value: gust.gustFactor,
+			quantity: null,
+			equation: "G = 0.925 (1 + 1.7 gQ Iz Q) / (1 + 1.7 gv Iz)",
+			substituted: `G = 0.925 (1 + 1.7 × ${G_Q} × ${gust.iz} × ${gust.q}) / (1 + 1.7 × ${G_V} × ${gust.iz})`,
+			clause,
+		});
+	}
+	return trace;
+}
+
+// Approximate lower-bound natural frequency na per ASCE 7-22 Section 26.11.3
+export function estimateNaturalFrequency(system: StructuralSystem, heightFt: number): number {
+	switch (system) {
+		case "steel_moment_frame": return 22.2 / Math.pow(heightFt, 0.8);
+		case "concrete_moment_frame": return 43.5 / Math.pow(heightFt, 0.9);
+		case "other": return 75 / heightFt;
+	}
+}
+
+// Rl from Eq. 26.11-15, with Rl = 1 for eta = 0
+function resonanceFactor(eta: number): number {
+	if (eta <= 0) return 1;
+	return 1 / eta - (1 / (2 * eta * eta)) * (1 - Math.exp(-2 * eta));
+}
+
+// Terrain exposure constants from ASCE 7-22 Table 26.11-1
+function getTerrainConstants(exposure: ExposureCategory): TerrainConstants {
+	switch (exposure) {
+		case "B": return { bBar: 0.45, alphaBar: 1 / 4.0, c: 0.30, lengthScaleFt: 320, epsilonBar: 1 / 3.0, zMinFt: 30 };
+		case "C": return { bBar: 0.65, alphaBar: 1 / 6.5, c: 0.20, lengthScaleFt: 500, epsilonBar: 1 / 5.0, zMinFt: 15 };
+		case "D": return { bBar: 0.80, alphaBar: 1 / 9.0, c: 0.15, lengthScaleFt: 650, epsilonBar: 1 / 8.0, zMinFt: 7 };
+	}
+}
+
+export function describeStructuralSystem(system: StructuralSystem): string {
+	switch (system) {
+		case "steel_moment_frame": return "Steel moment frame";
+		case "concrete_moment_frame": return "Concrete moment frame";
+		case "other": return "Other (braced, shear wall)";
+	}
+}
+
+function describeSystem(system: StructuralSystem): string {
+	switch (system) {
+		case "steel_moment_frame": return "steel moment frame, na = 22.2/h^0.8";
+		case "concrete_moment_frame": return "concrete moment frame, na = 43.5/h^0.9";
+		case "other": return "other systems, na = 75/h";
+	}
+}
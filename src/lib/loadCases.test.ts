@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { calculateLoadCases } from "./loadCases";
+import type { DirectionalStoryPressures } from "./storyForces";
+
+// Two 10 ft stories, 100 ft wide normal to X and 50 ft wide normal to Y.
+// Full story forces: X = 16 and 18 kips, Y = 8 and 9 kips.
+const stories = (widthFt: number): DirectionalStoryPressures => ({
+	stories: [
+		{ story: 1, tributaryHeightFt: 10, elevationFt: 5, widthFt, windwardPsf: 10, leewardPsf: -6 },
+		{ story: 2, tributaryHeightFt: 10, elevationFt: 15, widthFt, windwardPsf: 12, leewardPsf: -6 },
+	],
+});
+
+describe("calculateLoadCases", () => {
+	const cases = calculateLoadCases(stories(100), stories(50));
+	const byId = (id: string) => cases.find((c) => c.id === id);
+
+	it("lists the six Figure 27.3-8 cases", () => {
+		expect(cases.map((c) => c.id)).toEqual(["1X", "1Y", "2X", "2Y", "3", "4"]);
+	});
+
+	it("applies the full, 75% and 56.3% story forces", () => {
+		expect(byId("1X")).toMatchObject({ baseShearXKips: 34, baseShearYKips: 0, baseTorsionKipFt: 0 });
+		expect(byId("1Y")).toMatchObject({ baseShearXKips: 0, baseShearYKips: 17, baseTorsionKipFt: 0 });
+		expect(byId("3")).toMatchObject({ baseShearXKips: 25.5, baseShearYKips: 12.75, baseTorsionKipFt: 0 });
+		// 0.563 × 34 = 19.142; 0.563 × 17 = 9.571
+		expect(byId("4")).toMatchObject({ baseShearXKips: 19.14, baseShearYKips: 9.57 });
+	});
+
+	it("adds torsion from e = 0.15B and accumulates it from the roof down", () => {
+		// Case 2X: 0.75 × 16 × 15 = 180 and 0.75 × 18 × 15 = 202.5 kip-ft
+		expect(byId("2X")?.stories).toEqual([
+			{ story: 1, forceXKips: 12, forceYKips: 0, torsionKipFt: 180, shearXKips: 25.5, shearYKips: 0, cumulativeTorsionKipFt: 382.5 },
+			{ story: 2, forceXKips: 13.5, forceYKips: 0, torsionKipFt: 202.5, shearXKips: 13.5, shearYKips: 0, cumulativeTorsionKipFt: 202.5 },
+		]);
+		// Case 4: 9.008 × 15 + 4.504 × 7.5 = 168.9; 10.134 × 15 + 5.067 × 7.5 = 190.0
+		expect(byId("4")?.stories.map((s) => s.torsionKipFt)).toEqual([168.9, 190]);
+		expect(byId("4")?.baseTorsionKipFt).toBe(358.9);
+	});
+});
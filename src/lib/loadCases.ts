@@ -0,0 +1,93 @@
+import { calculateStoryForces, type DirectionalStoryPressures } from "./storyForces";
+import { roundTo } from "./wind";
+
+export type LoadCaseId = "1X" | "1Y" | "2X" | "2Y" | "3" | "4";
+
+export interface LoadCaseStory {
+	story: number;
+	forceXKips: number;
+	forceYKips: number;
+	// Torsional moment about the vertical axis, acting in either sense, kip-ft
+	torsionKipFt: number;
+	shearXKips: number;
+	shearYKips: number;
+	cumulativeTorsionKipFt: number;
+}
+
+export interface LoadCaseResult {
+	id: LoadCaseId;
+	description: string;
+	stories: LoadCaseStory[];
+	baseShearXKips: number;
+	baseShearYKips: number;
+	baseTorsionKipFt: number;
+}
+
+interface LoadCaseDefinition {
+	id: LoadCaseId;
+	description: string;
+	// Fractions of the full X and Y story forces applied together
+	factorX: number;
+	factorY: number;
+	// Whether the eccentricity e = ±0.15B is applied to produce torsion
+	torsion: boolean;
+}
+
+// ASCE 7-22 Figure 27.3-8 design wind load cases
+const LOAD_CASES: LoadCaseDefinition[] = [
+	{ id: "1X", description: "Case 1: full PW + PL, wind along X", factorX: 1.0, factorY: 0, torsion: false },
+	{ id: "1Y", description: "Case 1: full PW + PL, wind along Y", factorX: 0, factorY: 1.0, torsion: false },
+	{ id: "2X", description: "Case 2: 0.75 (PW + PL) along X with eX = ±0.15 BX", factorX: 0.75, factorY: 0, torsion: true },
+	{ id: "2Y", description: "Case 2: 0.75 (PW + PL) along Y with eY = ±0.15 BY", factorX: 0, factorY: 0.75, torsion: true },
+	{ id: "3", description: "Case 3: 0.75 (PW + PL) along X and Y simultaneously", factorX: 0.75, factorY: 0.75, torsion: false },
+	{ id: "4", description: "Case 4: 0.563 (PW + PL) along X and Y with eX, eY = ±0.15 B", factorX: 0.563, factorY: 0.563, torsion: true },
+];
+
+// Eccentricity as a fraction of the building width, Figure 27.3-8
+const ECCENTRICITY_RATIO = 0.15;
+
+// Story forces, shears and torsional moments for every Figure 27.3-8 load case.
+// X and Y must list the same stories in ascending order.
+export function calculateLoadCases(x: DirectionalStoryPressures, y: DirectionalStoryPressures): LoadCaseResult[] {
+	const fullX = calculateStoryForces(x).stories.map((s) => s.forceKips);
+	const fullY = calculateStoryForces(y).stories.map((s) => s.forceKips);
+	return LOAD_CASES.map((lc) => {
+		const stories: LoadCaseStory[] = x.stories.map((s, i) => {
+			const forceX = lc.factorX * fullX[i];
+			const forceY = lc.factorY * fullY[i];
+			// Eccentricity from the width of each story
+			const eX = ECCENTRICITY_RATIO * s.widthFt;
+			const eY = ECCENTRICITY_RATIO * y.stories[i].widthFt;
+			const torsion = lc.torsion ? Math.abs(forceX * eX) + Math.abs(forceY * eY) : 0;
+			return { story: s.story, forceXKips: forceX, forceYKips: forceY, torsionKipFt: torsion, shearXKips: 0, shearYKips: 0, cumulativeTorsionKipFt: 0 };
+		});
+		// Shears and torsion accumulate from the roof down
+		let shearX = 0;
+		let shearY = 0;
+		let cumulativeTorsion = 0;
+		for (let i = stories.length - 1; i >= 0; i--) {
+			shearX += stories[i].forceXKips;
+			shearY += stories[i].forceYKips;
+			cumulativeTorsion += stories[i].torsionKipFt;
+			stories[i].shearXKips = shearX;
+			stories[i].shearYKips = shearY;
+			stories[i].cumulativeTorsionKipFt = cumulativeTorsion;
+		}
+		return {
+			id: lc.id,
+			description: lc.description,
+			stories: stories.map((s) => ({
+				story: s.story,
+				forceXKips: roundTo(s.forceXKips, 2),
+				forceYKips: roundTo(s.forceYKips, 2),
+				torsionKipFt: roundTo(s.torsionKipFt, 1),
+				shearXKips: roundTo(s.shearXKips, 2),
+				shearYKips: roundTo(s.shearYKips, 2),
+				cumulativeTorsionKipFt: roundTo(s.cumulativeTorsionKipFt, 1),
+			})),
+			baseShearXKips: roundTo(shearX, 2),
+			baseShearYKips: roundTo(shearY, 2),
+			baseTorsionKipFt: roundTo(cumulativeTorsion, 1),
+		};
+	});
+}
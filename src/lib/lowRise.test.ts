@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { calculateLowRisePressures, type LowRiseInput } from "./lowRise";
+
+const input: LowRiseInput = { qhPsf: 20, directionalityFactor: 0.85, gcpi: { positive: 0.18, negative: -0.18 }, roofAngleDeg: 0, lengthFt: 100, widthFt: 50, meanRoofHeightFt: 30 };
+const caseA = (roofAngleDeg: number) => calculateLowRisePressures({ ...input, roofAngleDeg }).cases[0].surfaces;
+
+describe("calculateLowRisePressures", () => {
+	it("reads GCpf of Figure 28.3-1 Load Case A for flat roofs", () => {
+		expect(caseA(0).map((s) => s.gcpf)).toEqual([0.4, -0.69, -0.37, -0.29, 0.61, -1.07, -0.53, -0.43]);
+	});
+
+	it("interpolates Load Case A GCpf on roof angle", () => {
+		// 12.5 deg: 0.40 + 0.5 × 0.13 = 0.465; 25 deg: -1.07 + 0.5 × 1.34 = -0.4; 60 deg: 0.21 + 0.35/3 = 0.327
+		expect(caseA(12.5)[0].gcpf).toBe(0.465);
+		expect(caseA(25)[5].gcpf).toBe(-0.4);
+		expect(caseA(60)[1].gcpf).toBe(0.327);
+		expect(caseA(40)).toEqual(caseA(30));
+	});
+
+	it("applies qh Kd [(GCpf) - (GCpi)] with 25% on the torsional zones", () => {
+		// Zone 2: 17 × (-0.69 - 0.18) = -14.79; 17 × (-0.69 + 0.18) = -8.67
+		const [, zone2, , , , zone2E] = caseA(0);
+		expect(zone2.pressuresPsf).toEqual([-14.79, -8.67]);
+		expect(zone2.torsionalPsf?.[1]).toBeCloseTo(-2.17, 2);
+		expect(zone2E.torsionalPsf).toBeUndefined();
+	});
+
+	it("uses the Load Case B values for every roof angle", () => {
+		const caseB = calculateLowRisePressures({ ...input, roofAngleDeg: 30 }).cases[1].surfaces;
+		expect(caseB.map((s) => [s.surface, s.gcpf])).toEqual([
+			["1", -0.45], ["2", -0.69], ["3", -0.37], ["4", -0.45], ["5", 0.4], ["6", -0.29],
+			["1E", -0.48], ["2E", -1.07], ["3E", -0.53], ["4E", -0.48], ["5E", 0.61], ["6E", -0.43],
+		]);
+	});
+
+	it("checks the low-rise limits and takes the end zone as 2a", () => {
+		expect(calculateLowRisePressures(input)).toMatchObject({ applicable: true, edgeDistanceFt: 5, endZoneWidthFt: 10 });
+		expect(calculateLowRisePressures({ ...input, meanRoofHeightFt: 70, lengthFt: 200, widthFt: 150 }).applicable).toBe(false);
+		expect(calculateLowRisePressures({ ...input, meanRoofHeightFt: 55, widthFt: 40 }).applicable).toBe(false);
+	});
+});
@@ -0,0 +1,115 @@
+import { getEdgeDistanceA } from "./cladding";
+import { roundTo } from "./wind";
+
+export type LowRiseLoadCaseId = "A" | "B";
+
+export interface LowRiseInput {
+	// Velocity pressure at mean roof height qh, psf
+	qhPsf: number;
+	directionalityFactor: number;
+	gcpi: { positive: number; negative: number };
+	// Roof angle theta, degrees
+	roofAngleDeg: number;
+	lengthFt: number;
+	widthFt: number;
+	meanRoofHeightFt: number;
+}
+
+export interface LowRiseSurfaceResult {
+	surface: string;
+	gcpf: number;
+	// Design pressures with +GCpi and -GCpi, psf
+	pressuresPsf: [number, number];
+	// Torsional load case: 25% of the full pressures on the matching T zone, psf (interior surfaces only)
+	torsionalPsf?: [number, number];
+}
+
+export interface LowRiseLoadCase {
+	id: LowRiseLoadCaseId;
+	description: string;
+	surfaces: LowRiseSurfaceResult[];
+}
+
+export interface LowRiseResult {
+	applicable: boolean;
+	edgeDistanceFt: number; // a
+	endZoneWidthFt: number; // 2a
+	cases: LowRiseLoadCase[];
+	notes: string[];
+}
+
+// Load Case A GCpf from ASCE 7-22 Figure 28.3-1, by roof angle
+// Columns: 1, 2, 3, 4, 1E, 2E, 3E, 4E
+const CASE_A_SURFACES = ["1", "2", "3", "4", "1E", "2E", "3E", "4E"];
+const CASE_A_ANGLES = [5, 20, 30, 45, 90];
+const CASE_A_GCPF = [
+	[0.40, -0.69, -0.37, -0.29, 0.61, -1.07, -0.53, -0.43],
+	[0.53, -0.69, -0.48, -0.43, 0.80, -1.07, -0.69, -0.64],
+	[0.56, 0.21, -0.43, -0.37, 0.69, 0.27, -0.53, -0.48],
+	[0.56, 0.21, -0.43, -0.37, 0.69, 0.27, -0.53, -0.48],
+	[0.56, 0.56, -0.37, -0.37, 0.69, 0.69, -0.48, -0.48],
+];
+
+// Load Case B GCpf from ASCE 7-22 Figure 28.3-1, all roof angles
+const CASE_B_GCPF: Array<[string, number]> = [
+	["1", -0.45], ["2", -0.69], ["3", -0.37], ["4", -0.45], ["5", 0.40], ["6", -0.29],
+	["1E", -0.48], ["2E", -1.07], ["3E", -0.53], ["4E", -0.48], ["5E", 0.61], ["6E", -0.43],
+];
+
+// Fraction of the full pressure applied to the T zones in the torsional load case
+const TORSIONAL_FRACTION = 0.25;
+
+// ASCE 7-22 Chapter 28 Part 1 envelope procedure for low-rise buildings:
+// p = qh * Kd * [(GCpf) - (GCpi)]
+export function calculateLowRisePressures(input: LowRiseInput): LowRiseResult {
+	const { qhPsf, directionalityFactor: kd, gcpi, roofAngleDeg, lengthFt, widthFt, meanRoofHeightFt: h } = input;
+	const q = qhPsf * kd;
+	const notes: string[] = [];
+
+	const leastDimension = Math.min(lengthFt, widthFt);
+	const applicable = h <= 60 && h <= leastDimension;
+	if (!applicable) {
+		notes.push(`Low-rise limits not met (h = ${roundTo(h, 1)} ft must be <= 60 ft and <= ${roundTo(leastDimension, 1)} ft, Section 26.2)`);
+	}
+
+	const toSurface = (surface: string, gcpf: number): LowRiseSurfaceResult => {
+		const pressuresPsf: [number, number] = [roundTo(q * (gcpf - gcpi.positive), 2), roundTo(q * (gcpf - gcpi.negative), 2)];
+		return {
+			surface,
+			gcpf: roundTo(gcpf, 3),
+			pressuresPsf,
+			torsionalPsf: surface.endsWith("E") ? undefined : [roundTo(TORSIONAL_FRACTION * pressuresPsf[0], 2), roundTo(TORSIONAL_FRACTION * pressuresPsf[1], 2)],
+		};
+	};
+
+	const caseA = CASE_A_SURFACES.map((surface, idx) => toSurface(surface, interpolateAngle(roofAngleDeg, CASE_A_GCPF.map((row) => row[idx]))));
+	const caseB = CASE_B_GCPF.map(([surface, gcpf]) => toSurface(surface, gcpf));
+
+	const a = getEdgeDistanceA(lengthFt, widthFt, h);
+	notes.push(`End zone width 2a = ${roundTo(2 * a, 2)} ft`);
+	notes.push("Torsional case: full pressures on zones 1-6, 25% on zones 1T-6T (Figure 28.3-1 note 8)");
+	notes.push("Formula: p = qh * Kd * [(GCpf) - (GCpi)]");
+
+	return {
+		applicable,
+		edgeDistanceFt: a,
+		endZoneWidthFt: roundTo(2 * a, 2),
+		cases: [
+			{ id: "A", description: `Load Case A (transverse, theta = ${roundTo(roofAngleDeg, 1)} deg)`, surfaces: caseA },
+			{ id: "B", description: "Load Case B (longitudinal)", surfaces: caseB },
+		],
+		notes,
+	};
+}
+
+// Linear interpolation on roof angle over the Figure 28.3-1 breakpoints (0-5, 20, 30-45, 90 deg)
+function interpolateAngle(theta: number, values: number[]): number {
+	if (theta <= CASE_A_ANGLES[0]) return values[0];
+	for (let i = 1; i < CASE_A_ANGLES.length; i++) {
+		if (theta <= CASE_A_ANGLES[i]) {
+			const t = (theta - CASE_A_ANGLES[i - 1]) / (CASE_A_ANGLES[i] - CASE_A_ANGLES[i - 1]);
+			return values[i - 1] + t * (values[i] - values[i - 1]);
+		}
+	}
+	return values[values.length - 1];
+}
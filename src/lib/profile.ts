@@ -0,0 +1,37 @@
+import { getEaveHeight, getMeanRoofHeight, getStoryGeometry, getVelocityPressureAt, type BuildingInput, type VelocityPressurePoint } from "./building";
+import { getZg, KZ_MIN_HEIGHT_FT, type ExposureCategory } from "./wind";
+
+// Continuous velocity pressure profiles from grade to the roof, for the elevation chart
+
+export const PROFILE_EXPOSURES: ExposureCategory[] = ["B", "C", "D"];
+
+const PROFILE_SAMPLES = 80;
+
+export interface ExposureProfile {
+	exposure: ExposureCategory;
+	// Ascending heights from grade to the top of the building
+	points: VelocityPressurePoint[];
+}
+
+// qz and Kz for each exposure at evenly spaced heights. The Kz limits, 15 ft and the exposure's
+// zg, are sampled too, so the bends in the curves are drawn where they are.
+export function getExposureProfiles(input: BuildingInput): ExposureProfile[] {
+	const topFt = getProfileTop(input);
+	const heights = Array.from({ length: PROFILE_SAMPLES + 1 }, (_, i) => topFt * i / PROFILE_SAMPLES);
+	return PROFILE_EXPOSURES.map((exposure) => {
+		const limits = [KZ_MIN_HEIGHT_FT, getZg(exposure, input.edition)].filter((z) => z < topFt);
+		const sorted = [...new Set([...heights, ...limits])].sort((a, b) => a - b);
+		return { exposure, points: sorted.map((z) => getVelocityPressureAt(input, exposure, z)) };
+	});
+}
+
+// Height the profiles reach: the mean roof height, or the eave when h is entered below it
+export function getProfileTop(input: BuildingInput): number {
+	return Math.max(getMeanRoofHeight(input), getEaveHeight(input));
+}
+
+// Elevations of the floors above grade and of the eave, ascending
+export function getStoryLevels(input: BuildingInput): number[] {
+	let levelFt = 0;
+	return getStoryGeometry(input).map((story) => (levelFt += story.heightFt));
+}
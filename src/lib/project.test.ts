@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FORM, readFormInput } from "./form";
+import { createProjectFile, decodeProjectHash, encodeProjectHash, parseProject, PROJECT_SCHEMA_VERSION, ProjectFormatError, serializeProject } from "./project";
+
+describe("parseProject", () => {
+	it("round-trips a saved project", () => {
+		const input = { ...DEFAULT_FORM, exposure: "C" as const, useStoryTable: true, numStories: "2", storyLevels: [{ height: "14", length: "", width: "", setback: "" }, { height: "", length: "80", width: "40", setback: "" }] };
+		const project = parseProject(serializeProject(createProjectFile("Warehouse", input)), readFormInput);
+		expect(project.name).toBe("Warehouse");
+		expect(project.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+		expect(project.input).toEqual(input);
+	});
+
+	it("migrates version 0 files and fills fields added since", () => {
+		const project = parseProject(JSON.stringify({ name: "Old", input: { windSpeedMph: "130", storyHeightFt: "12", exposure: "D" } }), readFormInput);
+		expect(project.input).toEqual({ ...DEFAULT_FORM, unitSystem: "imperial", windSpeed: "130", storyHeight: "12", exposure: "D" });
+	});
+
+	it("rejects unknown options and malformed rows", () => {
+		const parse = (input: object) => () => parseProject(JSON.stringify({ schemaVersion: 1, input }), readFormInput);
+		expect(parse({ exposure: "E" })).toThrow(ProjectFormatError);
+		expect(parse({ edition: "7-05" })).toThrow(ProjectFormatError);
+		expect(parse({ windSpeed: 115 })).toThrow(ProjectFormatError);
+		expect(parse({ openings: [null] })).toThrow(ProjectFormatError);
+		expect(parse({ storyLevels: [{ height: 12 }] })).toThrow(ProjectFormatError);
+	});
+
+	it("fills blank cells of story rows that lack them", () => {
+		const project = parseProject(JSON.stringify({ schemaVersion: 1, input: { storyLevels: [{ height: "12" }] } }), readFormInput);
+		expect(project.input.storyLevels).toEqual([{ height: "12", length: "", width: "", setback: "" }]);
+	});
+
+	it("rejects a story table in use without one row per story", () => {
+		const input = { useStoryTable: true, numStories: "3", storyLevels: [{ height: "12" }] };
+		expect(() => parseProject(JSON.stringify({ schemaVersion: 1, input }), readFormInput)).toThrow(/1 rows for 3 stories/);
+	});
+
+	it("rejects newer schema versions", () => {
+		expect(() => parseProject(JSON.stringify({ schemaVersion: PROJECT_SCHEMA_VERSION + 1, input: {} }), readFormInput)).toThrow(/newer/);
+	});
+});
+
+describe("decodeProjectHash", () => {
+	it("reads back an encoded link", () => {
+		const input = { ...DEFAULT_FORM, windSpeed: "140" };
+		expect(decodeProjectHash(encodeProjectHash("Link", input), readFormInput)?.input).toEqual(input);
+	});
+
+	it("ignores links it cannot read", () => {
+		expect(decodeProjectHash(encodeProjectHash("Bad", { exposure: "E" }), readFormInput)).toBeNull();
+		expect(decodeProjectHash("#other", readFormInput)).toBeNull();
+	});
+});
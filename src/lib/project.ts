@@ -0,0 +1,137 @@
+// Current version of the saved project schema. Bump it whenever the input model changes in a way
+// older files cannot be read as-is, and add a migration from the previous version.
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export const DEFAULT_PROJECT_NAME = "Untitled project";
+
+const RECENT_PROJECTS_KEY = "wind_loads.recentProjects";
+const MAX_RECENT_PROJECTS = 10;
+const URL_HASH_PREFIX = "#project=";
+
+export interface ProjectFile<T> {
+	schemaVersion: number;
+	name: string;
+	savedAt: string; // ISO timestamp
+	input: T;
+}
+
+type RawInput = Record<string, unknown>;
+
+// Checks an input read from a project, filling in the fields it lacks. Throws ProjectFormatError
+// for values it cannot use.
+export type ProjectInputReader<T> = (input: RawInput) => T;
+
+// Migrations keyed by the version they upgrade from; each returns input for the next version
+const MIGRATIONS: Record<number, (input: RawInput) => RawInput> = {
+	// Version 0 files predate unit selection: speed and story height were always mph and ft
+	0: ({ windSpeedMph, storyHeightFt, ...rest }) => ({
+		...rest,
+		unitSystem: "imperial",
+		...(windSpeedMph !== undefined ? { windSpeed: windSpeedMph } : {}),
+		...(storyHeightFt !== undefined ? { storyHeight: storyHeightFt } : {}),
+	}),
+};
+
+export class ProjectFormatError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ProjectFormatError";
+	}
+}
+
+export function createProjectFile<T>(name: string, input: T): ProjectFile<T> {
+	return { schemaVersion: PROJECT_SCHEMA_VERSION, name, savedAt: new Date().toISOString(), input };
+}
+
+export function serializeProject<T>(project: ProjectFile<T>): string {
+	return JSON.stringify(project, null, 2);
+}
+
+// Parse a saved project, migrating older schema versions forward. The reader checks the input
+// and supplies fields added since the file was written.
+export function parseProject<T>(json: string, readInput: ProjectInputReader<T>): ProjectFile<T> {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		throw new ProjectFormatError("Project file is not valid JSON");
+	}
+	if (!isRecord(data)) throw new ProjectFormatError("Project file must contain a JSON object");
+	// Files without a version number are treated as version 0
+	const version = typeof data.schemaVersion === "number" ? data.schemaVersion : 0;
+	if (version > PROJECT_SCHEMA_VERSION) {
+		throw new ProjectFormatError(`Project schema version ${version} is newer than this calculator supports (${PROJECT_SCHEMA_VERSION})`);
+	}
+	if (!isRecord(data.input)) throw new ProjectFormatError("Project file has no input object");
+
+	let input: RawInput = data.input;
+	for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+		const migrate = MIGRATIONS[v];
+		if (!migrate) throw new ProjectFormatError(`No migration from project schema version ${v}`);
+		input = migrate(input);
+	}
+	return {
+		schemaVersion: PROJECT_SCHEMA_VERSION,
+		name: typeof data.name === "string" ? data.name : DEFAULT_PROJECT_NAME,
+		savedAt: typeof data.savedAt === "string" ? data.savedAt : new Date().toISOString(),
+		input: readInput(input),
+	};
+}
+
+// Project input encoded for a URL hash, so a link reproduces the calculation
+export function encodeProjectHash<T>(name: string, input: T): string {
+	const json = JSON.stringify({ schemaVersion: PROJECT_SCHEMA_VERSION, name, input });
+	return URL_HASH_PREFIX + encodeURIComponent(json);
+}
+
+// Project from a URL hash written by encodeProjectHash, or null when the hash holds none
+export function decodeProjectHash<T>(hash: string, readInput: ProjectInputReader<T>): ProjectFile<T> | null {
+	if (!hash.startsWith(URL_HASH_PREFIX)) return null;
+	try {
+		return parseProject(decodeURIComponent(hash.slice(URL_HASH_PREFIX.length)), readInput);
+	} catch {
+		return null;
+	}
+}
+
+// Recently saved projects, newest first; unreadable entries are dropped
+export function loadRecentProjects<T>(readInput: ProjectInputReader<T>): ProjectFile<T>[] {
+	const stored = readStorage();
+	if (!stored) return [];
+	try {
+		const entries: unknown = JSON.parse(stored);
+		if (!Array.isArray(entries)) return [];
+		return entries.flatMap((entry) => {
+			try {
+				return [parseProject(JSON.stringify(entry), readInput)];
+			} catch {
+				return [];
+			}
+		});
+	} catch {
+		return [];
+	}
+}
+
+// Add a project to the recent list, replacing an older entry with the same name
+export function saveRecentProject<T>(project: ProjectFile<T>, readInput: ProjectInputReader<T>): ProjectFile<T>[] {
+	const recent = [project, ...loadRecentProjects(readInput).filter((p) => p.name !== project.name)].slice(0, MAX_RECENT_PROJECTS);
+	try {
+		localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(recent));
+	} catch {
+		// Storage full or unavailable (private browsing); the list simply isn't persisted
+	}
+	return recent;
+}
+
+function readStorage(): string | null {
+	try {
+		return localStorage.getItem(RECENT_PROJECTS_KEY);
+	} catch {
+		return null;
+	}
+}
+
+function isRecord(value: unknown): value is RawInput {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
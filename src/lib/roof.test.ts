@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { calculateRoofCp, calculateRoofPressures } from "./roof";
+
+describe("calculateRoofCp", () => {
+	it("uses the distance bands for flat roofs, interpolated on h/L", () => {
+		const cases = (h: number, L: number) => calculateRoofCp({ slopeAngleDeg: 0, meanRoofHeightFt: h, lengthFt: L, ridgeOrientation: "normal_to_wind" }).zones.map((z) => z.cpCase1);
+		// h/L <= 0.5, 1.0 and 0.75; the bands beyond the leeward edge are dropped
+		expect(cases(30, 120)).toEqual([-0.9, -0.9, -0.5, -0.3]);
+		expect(cases(60, 60)).toEqual([-1.3, -0.7]);
+		expect(cases(60, 80)).toEqual([-1.1, -0.8, -0.6]);
+	});
+
+	it("stops the bands at the leeward edge", () => {
+		const result = calculateRoofCp({ slopeAngleDeg: 0, meanRoofHeightFt: 30, lengthFt: 50, ridgeOrientation: "normal_to_wind" });
+		expect(result.zones.map((z) => [z.label, z.endFt])).toEqual([["0 to h/2", 15], ["h/2 to h", 30], ["h to 2h", 50]]);
+	});
+
+	it("uses the distance bands for wind parallel to the ridge at any slope", () => {
+		expect(calculateRoofCp({ slopeAngleDeg: 30, meanRoofHeightFt: 30, lengthFt: 120, ridgeOrientation: "parallel_to_wind" }).method).toBe("distance");
+	});
+
+	it("reads the windward and leeward slope values for wind normal to the ridge", () => {
+		// θ = 25 deg, h/L = 0.25
+		expect(calculateRoofCp({ slopeAngleDeg: 25, meanRoofHeightFt: 30, lengthFt: 120, ridgeOrientation: "normal_to_wind" }).zones).toEqual([
+			{ label: "Windward slope", cpCase1: -0.2, cpCase2: 0.3 },
+			{ label: "Leeward slope", cpCase1: -0.6, cpCase2: -0.6 },
+		]);
+	});
+
+	it("interpolates linearly on θ and on h/L", () => {
+		// θ = 12.5 deg between the 10 and 15 deg columns at h/L = 0.25
+		const onTheta = calculateRoofCp({ slopeAngleDeg: 12.5, meanRoofHeightFt: 30, lengthFt: 120, ridgeOrientation: "normal_to_wind" }).zones;
+		expect(onTheta.map((z) => [z.cpCase1, z.cpCase2])).toEqual([[-0.6, -0.09], [-0.4, -0.4]]);
+		// h/L = 0.75 between the 0.5 and 1.0 rows at θ = 20 deg
+		const onHeight = calculateRoofCp({ slopeAngleDeg: 20, meanRoofHeightFt: 60, lengthFt: 80, ridgeOrientation: "normal_to_wind" }).zones;
+		expect(onHeight[0]).toMatchObject({ cpCase1: -0.55, cpCase2: -0.09 });
+	});
+
+	it("takes Cp = 0.01θ on the windward slope from 60 deg", () => {
+		expect(calculateRoofCp({ slopeAngleDeg: 70, meanRoofHeightFt: 30, lengthFt: 120, ridgeOrientation: "normal_to_wind" }).zones[0]).toMatchObject({ cpCase1: 0.7, cpCase2: 0.7 });
+	});
+});
+
+describe("calculateRoofPressures", () => {
+	it("applies qh Kd G Cp - qh Kd (GCpi) to each case", () => {
+		const roofCp = { method: "slope" as const, hOverL: 0.25, zones: [{ label: "Windward slope", cpCase1: -0.2, cpCase2: 0.3 }], notes: [] };
+		const [zone] = calculateRoofPressures({ edition: "7-22", roofCp, qhPsf: 20, directionalityFactor: 0.85, gustFactor: 0.85, gcpi: { positive: 0.18, negative: -0.18 } }).zones;
+		// 17 × 0.85 × -0.2 - 17 × 0.18 = -5.95; 17 × 0.85 × 0.3 + 17 × 0.18 = 7.395
+		expect(zone.case1Psf[0]).toBeCloseTo(-5.95, 6);
+		expect(zone.case2Psf[1]).toBeCloseTo(7.395, 6);
+	});
+});
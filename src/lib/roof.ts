@@ -0,0 +1,199 @@
+import { formatTraceValue, getClause, substituteInBothSystems, type TraceEntry } from "./trace";
+import { roundTo, type AsceEdition } from "./wind";
+
+export type RidgeOrientation = "normal_to_wind" | "parallel_to_wind";
+
+export interface RoofGeometryInput {
+	// Roof slope angle from horizontal theta, degrees
+	slopeAngleDeg: number;
+	// Mean roof height h, ft
+	meanRoofHeightFt: number;
+	// Horizontal dimension parallel to wind L, ft
+	lengthFt: number;
+	ridgeOrientation: RidgeOrientation;
+}
+
+export interface RoofCpZone {
+	label: string;
+	// Distance from windward edge covered by the zone, ft (distance-banded zones only)
+	startFt?: number;
+	endFt?: number;
+	// Figure 27.3-1 gives two windward values in places; both must be checked.
+	// Case 1 is the more negative value, case 2 the less negative (or positive) value.
+	cpCase1: number;
+	cpCase2: number;
+}
+
+export interface RoofCpResult {
+	method: "distance" | "slope";
+	hOverL: number;
+	zones: RoofCpZone[];
+	notes: string[];
+}
+
+export interface RoofPressureInput {
+	edition: AsceEdition;
+	roofCp: RoofCpResult;
+	// Velocity pressure at mean roof height qh, psf
+	qhPsf: number;
+	// Directionality factor Kd (1.0 for editions that already include it in qz)
+	directionalityFactor: number;
+	gustFactor: number;
+	gcpi: { positive: number; negative: number };
+}
+
+export interface RoofZonePressure {
+	zone: RoofCpZone;
+	// Design pressures for each Cp case with +GCpi and -GCpi, psf
+	case1Psf: [number, number];
+	case2Psf: [number, number];
+}
+
+export interface RoofPressureResult {
+	zones: RoofZonePressure[];
+	trace: TraceEntry[];
+}
+
+// Windward roof Cp for wind normal to ridge, theta >= 10 deg (ASCE 7-22 Figure 27.3-1)
+// Rows are theta = 10, 15, 20, 25, 30, 35, 45 deg; [case 1, case 2]
+const WINDWARD_ANGLES = [10, 15, 20, 25, 30, 35, 45];
+const WINDWARD_CP: Array<{ hOverL: number; values: Array<[number, number]> }> = [
+	{ hOverL: 0.25, values: [[-0.7, -0.18], [-0.5, 0.0], [-0.3, 0.2], [-0.2, 0.3], [-0.2, 0.3], [0.0, 0.4], [0.0, 0.4]] },
+	{ hOverL: 0.5, values: [[-0.9, -0.18], [-0.7, -0.18], [-0.4, 0.0], [-0.3, 0.2], [-0.2, 0.2], [-0.2, 0.3], [0.0, 0.4]] },
+	{ hOverL: 1.0, values: [[-1.3, -0.18], [-1.0, -0.18], [-0.7, -0.18], [-0.5, 0.0], [-0.3, 0.2], [-0.2, 0.2], [0.0, 0.3]] },
+];
+
+// Leeward roof Cp for wind normal to ridge, theta = 10, 15, >= 20 deg (ASCE 7-22 Figure 27.3-1)
+const LEEWARD_ANGLES = [10, 15, 20];
+const LEEWARD_CP: Array<{ hOverL: number; values: number[] }> = [
+	{ hOverL: 0.25, values: [-0.3, -0.5, -0.6] },
+	{ hOverL: 0.5, values: [-0.5, -0.5, -0.6] },
+	{ hOverL: 1.0, values: [-0.7, -0.6, -0.6] },
+];
+
+// ASCE 7-22 Figure 27.3-1 roof pressure coefficients for the MWFRS.
+// Wind normal to ridge with theta < 10 deg, and wind parallel to ridge for all theta,
+// use the distance-from-windward-edge bands; otherwise windward/leeward slope values apply.
+export function calculateRoofCp(input: RoofGeometryInput): RoofCpResult {
+	const { slopeAngleDeg: theta, meanRoofHeightFt: h, lengthFt: L, ridgeOrientation } = input;
+	const hOverL = h / L;
+	const notes: string[] = [];
+
+	if (ridgeOrientation === "parallel_to_wind" || theta < 10) {
+		notes.push(`Distance bands from windward edge, h/L = ${hOverL.toFixed(2)}`);
+		notes.push("Cp = -1.3 near the windward edge is not reduced for area (Figure 27.3-1 note, conservative)");
+		return { method: "distance", hOverL: roundTo(hOverL, 3), zones: getDistanceBandZones(h, L, hOverL), notes };
+	}
+
+	const windward = interpolateWindward(theta, hOverL);
+	const leeward = interpolateTable(LEEWARD_CP.map((row) => ({ hOverL: row.hOverL, value: interpolateLinear(theta, LEEWARD_ANGLES, row.values) })), hOverL);
+	notes.push(`Wind normal to ridge, theta = ${theta.toFixed(1)} deg, h/L = ${hOverL.toFixed(2)}`);
+	return {
+		method: "slope",
+		hOverL: roundTo(hOverL, 3),
+		zones: [
+			{ label: "Windward slope", cpCase1: roundTo(windward[0], 3), cpCase2: roundTo(windward[1], 3) },
+			{ label: "Leeward slope", cpCase1: roundTo(leeward, 3), cpCase2: roundTo(leeward, 3) },
+		],
+		notes,
+	};
+}
+
+// Roof pressures for every zone and both Cp cases, with q at the mean roof height:
+// p = (qh × Kd × G × Cp) - (qh × Kd × GCpi)
+export function calculateRoofPressures(input: RoofPressureInput): RoofPressureResult {
+	const { edition, roofCp, directionalityFactor: kd, gustFactor, gcpi } = input;
+	const q = input.qhPsf * kd;
+	const pressure = (cp: number, gcpiValue: number) => (q * gustFactor * cp) - (q * gcpiValue);
+	const zones: RoofZonePressure[] = roofCp.zones.map((zone) => ({
+		zone,
+		case1Psf: [pressure(zone.cpCase1, gcpi.positive), pressure(zone.cpCase1, gcpi.negative)],
+		case2Psf: [pressure(zone.cpCase2, gcpi.positive), pressure(zone.cpCase2, gcpi.negative)],
+	}));
+
+	const equation = edition === "7-22" ? "p = qh Kd G Cp - qh Kd (GCpi)" : "p = qh G Cp - qh (GCpi)";
+	const kdTerm = edition === "7-22" ? ` × ${kd}` : "";
+	const substitute = (cp: number, gcpiValue: number) => substituteInBothSystems((system) => {
+		const qh = formatTraceValue(input.qhPsf, "pressure", system);
+		return `p = ${qh}${kdTerm} × ${gustFactor} × ${cp} - ${qh}${kdTerm} × (${gcpiValue})`;
+	});
+	const trace: TraceEntry[] = zones.flatMap(({ zone, case1Psf, case2Psf }) => [
+		{ cp: zone.cpCase1, pressures: case1Psf, name: "Case 1" },
+		{ cp: zone.cpCase2, pressures: case2Psf, name: "Case 2" },
+	].flatMap((c) => [
+		{ symbol: `Cp (Roof ${zone.label}, ${c.name})`, description: `Roof ${zone.label} pressure coefficient, ${c.name}`, value: c.cp, quantity: null, equation: roofCp.method === "distance" ? "Tabulated on distance from windward edge and h/L" : "Interpolated on θ and h/L", clause: getClause("cp", edition) },
+		...(["+", "-"] as const).map((sign, idx) => ({
+			symbol: `p (Roof ${zone.label}, ${c.name}, ${sign}GCpi)`,
+			description: `Roof ${zone.label} design pressure, ${c.name} with ${sign}GCpi`,
+			value: roundTo(c.pressures[idx], 3),
+			quantity: "pressure" as const,
+			equation,
+			...substitute(c.cp, [gcpi.positive, gcpi.negative][idx]),
+			clause: getClause("roof", edition),
+		})),
+	]));
+	return { zones, trace };
+}
+
+// Bands 0 to h/2, h/2 to h, h to 2h, > 2h; h/L between 0.5 and 1.0 is interpolated linearly
+function getDistanceBandZones(h: number, L: number, hOverL: number): RoofCpZone[] {
+	const bands: Array<{ label: string; start: number; end: number; low: number; high: number }> = [
+		{ label: "0 to h/2", start: 0, end: h / 2, low: -0.9, high: -1.3 },
+		{ label: "h/2 to h", start: h / 2, end: h, low: -0.9, high: -0.7 },
+		{ label: "h to 2h", start: h, end: 2 * h, low: -0.5, high: -0.7 },
+		{ label: "> 2h", start: 2 * h, end: Infinity, low: -0.3, high: -0.7 },
+	];
+	const t = Math.min(1, Math.max(0, (hOverL - 0.5) / 0.5));
+	const zones: RoofCpZone[] = [];
+	for (const band of bands) {
+		if (band.start >= L) break;
+		zones.push({
+			label: band.label,
+			startFt: roundTo(band.start, 2),
+			endFt: roundTo(Math.min(band.end, L), 2),
+			cpCase1: roundTo(band.low + t * (band.high - band.low), 3),
+			cpCase2: -0.18,
+		});
+	}
+	return zones;
+}
+
+function interpolateWindward(theta: number, hOverL: number): [number, number] {
+	if (theta >= 60) return [0.01 * theta, 0.01 * theta];
+	const rows = WINDWARD_CP.map((row) => {
+		if (theta > 45) {
+			// Between 45 deg and the 0.01*theta value at 60 deg
+			const t = (theta - 45) / 15;
+			const at45 = row.values[row.values.length - 1];
+			return { hOverL: row.hOverL, pair: [at45[0] + t * (0.6 - at45[0]), at45[1] + t * (0.6 - at45[1])] as [number, number] };
+		}
+		return {
+			hOverL: row.hOverL,
+			pair: [
+				interpolateLinear(theta, WINDWARD_ANGLES, row.values.map((v) => v[0])),
+				interpolateLinear(theta, WINDWARD_ANGLES, row.values.map((v) => v[1])),
+			] as [number, number],
+		};
+	});
+	return [
+		interpolateTable(rows.map((r) => ({ hOverL: r.hOverL, value: r.pair[0] })), hOverL),
+		interpolateTable(rows.map((r) => ({ hOverL: r.hOverL, value: r.pair[1] })), hOverL),
+	];
+}
+
+// Linear interpolation, holding the end values outside the tabulated range
+function interpolateLinear(x: number, xs: number[], ys: number[]): number {
+	if (x <= xs[0]) return ys[0];
+	for (let i = 1; i < xs.length; i++) {
+		if (x <= xs[i]) {
+			const t = (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+			return ys[i - 1] + t * (ys[i] - ys[i - 1]);
+		}
+	}
+	return ys[ys.length - 1];
+}
+
+// Interpolate a column of Figure 27.3-1 over h/L
+function interpolateTable(rows: Array<{ hOverL: number; value: number }>, hOverL: number): number {
+	return interpolateLinear(hOverL, rows.map((r) => r.hOverL), rows.map((r) => r.value));
+}
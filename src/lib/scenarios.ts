@@ -0,0 +1,156 @@
+import { analyzeBuilding, type BuildingAnalysis } from "./building";
+import { convertFormUnits, getBuildingInput, isFormValid, type FormState } from "./form";
+import { getUnitLabel, type Quantity, type UnitSystem } from "./units";
+import type { ExposureCategory, RiskCategory } from "./wind";
+
+// Parametric sweeps and side-by-side scenarios. Both vary a copy of the form as entered and
+// run the full building analysis for each variant.
+
+export type SweepParameter = "windSpeed" | "exposure" | "riskCategory" | "numStories";
+export type ScenarioMetric = "qhPsf" | "baseShearKips" | "overturningKipFt" | "windwardWallPsf" | "roofUpliftPsf";
+
+// Headline results of one analysis, US customary units
+export type ScenarioMetrics = Record<ScenarioMetric, number>;
+
+export interface SweepAxis {
+	parameter: SweepParameter;
+	// Numeric parameters: inclusive range in the form's units and the number of steps
+	start: string;
+	end: string;
+	count: string;
+	// Risk category sweeps: basic wind speed read from each category's map, in the form's units
+	categorySpeeds: Record<RiskCategory, string>;
+}
+
+export interface SweepStep {
+	label: string;
+	// Position along a chart axis; the index for categorical parameters
+	x: number;
+	changes: Partial<FormState>;
+}
+
+export interface SweepPoint {
+	primary: SweepStep;
+	secondary: SweepStep | null;
+	// Null when the varied input is outside the calculator's accepted ranges
+	metrics: ScenarioMetrics | null;
+}
+
+export const SWEEP_PARAMETERS: SweepParameter[] = ["windSpeed", "exposure", "riskCategory", "numStories"];
+
+export const SCENARIO_METRICS: Array<{ key: ScenarioMetric; label: string; quantity: Quantity }> = [
+	{ key: "qhPsf", label: "qh", quantity: "pressure" },
+	{ key: "baseShearKips", label: "Base shear", quantity: "force" },
+	{ key: "overturningKipFt", label: "Overturning moment", quantity: "moment" },
+	{ key: "windwardWallPsf", label: "Peak windward wall pressure", quantity: "pressure" },
+	{ key: "roofUpliftPsf", label: "Peak roof uplift", quantity: "pressure" },
+];
+
+// Keeps a two-parameter sweep to a few hundred analyses
+export const MAX_SWEEP_STEPS = 20;
+
+const EXPOSURES: ExposureCategory[] = ["B", "C", "D"];
+const RISK_CATEGORIES: RiskCategory[] = ["I", "II", "III", "IV"];
+
+export function getSweepParameterLabel(parameter: SweepParameter, unitSystem: UnitSystem): string {
+	switch (parameter) {
+		case "windSpeed": return `Wind speed V (${getUnitLabel("speed", unitSystem)})`;
+		case "exposure": return "Exposure category";
+		case "riskCategory": return "Risk Category";
+		case "numStories": return "Number of stories";
+	}
+}
+
+// Axis spanning the current input: ±20% of the wind speed, or one story to twice the current count
+export function getDefaultSweepAxis(form: FormState, parameter: SweepParameter): SweepAxis {
+	const speed = Number(form.windSpeed);
+	const stories = Math.max(1, Math.floor(Number(form.numStories)));
+	const categorySpeeds = { I: form.windSpeed, II: form.windSpeed, III: form.windSpeed, IV: form.windSpeed };
+	if (parameter === "numStories") {
+		const end = Math.max(2, stories * 2);
+		return { parameter, start: "1", end: String(end), count: String(Math.min(end, 10)), categorySpeeds };
+	}
+	return { parameter, start: String(Math.round(speed * 0.8)), end: String(Math.round(speed * 1.2)), count: "5", categorySpeeds };
+}
+
+// Form changes for each step of an axis; empty when a numeric range is incomplete
+export function getSweepSteps(form: FormState, axis: SweepAxis): SweepStep[] {
+	switch (axis.parameter) {
+		case "exposure":
+			return EXPOSURES.map((exposure, idx) => ({ label: exposure, x: idx, changes: { exposure, determineExposure: false } }));
+		case "riskCategory":
+			return RISK_CATEGORIES.map((riskCategory, idx) => ({
+				label: riskCategory,
+				x: idx,
+				changes: { riskCategory, windSpeed: axis.categorySpeeds[riskCategory] },
+			}));
+		case "windSpeed":
+			return getRangeValues(axis).map((v) => {
+				const speed = String(Number(v.toPrecision(6)));
+				return { label: speed, x: v, changes: { windSpeed: speed } };
+			});
+		case "numStories": {
+			const counts = [...new Set(getRangeValues(axis).map((v) => Math.round(v)))].filter((n) => n >= 1);
+			return counts.map((n) => {
+				const height = n * Number(form.storyHeight);
+				// The wall evaluation height must stay on the building; h follows the story count.
+				// Stories of the typical height replace a story table.
+				return {
+					label: String(n),
+					x: n,
+					changes: { numStories: String(n), useStoryTable: false, wallEvaluationHeight: String(Math.min(Number(form.wallEvaluationHeight), height)), meanRoofHeight: "" },
+				};
+			});
+		}
+	}
+}
+
+// Analysis of every combination of the primary and optional secondary steps
+export function runSweep(form: FormState, primary: SweepStep[], secondary: SweepStep[] | null): SweepPoint[] {
+	return (secondary ?? [null]).flatMap((second) => primary.map((first) => ({
+		primary: first,
+		secondary: second,
+		metrics: getScenarioMetrics({ ...form, ...second?.changes, ...first.changes }),
+	})));
+}
+
+// Headline results for a form as entered, or null when its input is outside the accepted ranges
+export function getScenarioMetrics(form: FormState): ScenarioMetrics | null {
+	const engineForm = convertFormUnits(form, "imperial");
+	if (!isFormValid(engineForm)) return null;
+	return summarizeAnalysis(analyzeBuilding(getBuildingInput(engineForm, form.unitSystem)));
+}
+
+// Governing values over both principal directions and both internal pressure cases.
+// Roof uplift is the most negative roof pressure.
+export function summarizeAnalysis(analysis: BuildingAnalysis): ScenarioMetrics {
+	const surfaces = analysis.directions.flatMap((d) => d.surfaces);
+	const pressures = (roof: boolean) => surfaces
+		.filter((s) => (s.cpCase !== null) === roof)
+		.filter((s) => roof || s.surface === "Windward wall")
+		.flatMap((s) => [s.positiveGcpiPsf, s.negativeGcpiPsf]);
+	return {
+		qhPsf: analysis.velocityPressure.qh.velocityPressurePsf,
+		baseShearKips: Math.max(...analysis.directions.map((d) => d.storyForces.baseShearKips)),
+		overturningKipFt: Math.max(...analysis.directions.map((d) => d.storyForces.overturningMomentKipFt)),
+		windwardWallPsf: Math.max(...pressures(false)),
+		roofUpliftPsf: Math.min(...pressures(true)),
+	};
+}
+
+// Relative change from a baseline, e.g. "+12.3%"; a dash when the baseline is zero
+export function formatPercentChange(value: number, baseline: number): string {
+	if (baseline === 0) return "—";
+	const change = (value - baseline) / Math.abs(baseline) * 100;
+	return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+function getRangeValues(axis: SweepAxis): number[] {
+	const start = Number(axis.start);
+	const end = Number(axis.end);
+	const count = Math.floor(Number(axis.count));
+	if (axis.start === "" || axis.end === "" || !isFinite(start) || !isFinite(end) || !Number.isInteger(count) || count < 1) return [];
+	const steps = Math.min(count, MAX_SWEEP_STEPS);
+	if (steps === 1 || start === end) return [start];
+	return Array.from({ length: steps }, (_, idx) => start + (end - start) * idx / (steps - 1));
+}
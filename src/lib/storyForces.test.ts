@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { calculateStoryForces } from "./storyForces";
+
+describe("calculateStoryForces", () => {
+	it("accumulates shear and overturning from the roof down", () => {
+		// F1 = (10 + 6) × 10 × 100 / 1000 = 16 kips, F2 = (12 + 6) × 10 × 100 / 1000 = 18 kips
+		// M at grade = 16 × 5 + 18 × 15 = 350 kip-ft; at the base of story 2 = 18 × 5 = 90 kip-ft
+		const result = calculateStoryForces({
+			stories: [
+				{ story: 1, tributaryHeightFt: 10, elevationFt: 5, widthFt: 100, windwardPsf: 10, leewardPsf: -6 },
+				{ story: 2, tributaryHeightFt: 10, elevationFt: 15, widthFt: 100, windwardPsf: 12, leewardPsf: -6 },
+			],
+		});
+		expect(result).toEqual({
+			stories: [
+				{ story: 1, elevationFt: 5, netPressurePsf: 16, forceKips: 16, shearKips: 34, overturningKipFt: 350 },
+				{ story: 2, elevationFt: 15, netPressurePsf: 18, forceKips: 18, shearKips: 18, overturningKipFt: 90 },
+			],
+			baseShearKips: 34,
+			overturningMomentKipFt: 350,
+		});
+	});
+
+	it("gives zero base reactions with no stories", () => {
+		expect(calculateStoryForces({ stories: [] })).toEqual({ stories: [], baseShearKips: 0, overturningMomentKipFt: 0 });
+	});
+});
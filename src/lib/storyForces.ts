@@ -0,0 +1,71 @@
+import { roundTo } from "./wind";
+
+export interface StoryWindPressure {
+	story: number;
+	// Tributary height of the story band and elevation of its centroid, ft
+	tributaryHeightFt: number;
+	elevationFt: number;
+	// Horizontal dimension of the story normal to the wind (BX or BY), ft
+	widthFt: number;
+	// External design pressures (q × G × Cp) on the windward and leeward faces, psf
+	windwardPsf: number;
+	leewardPsf: number;
+}
+
+export interface DirectionalStoryPressures {
+	stories: StoryWindPressure[];
+}
+
+export interface StoryForce {
+	story: number;
+	elevationFt: number;
+	// Windward plus leeward (suction) pressure acting on the story band, psf
+	netPressurePsf: number;
+	forceKips: number;
+	// Shear and overturning moment at the base of the story, from everything above
+	shearKips: number;
+	overturningKipFt: number;
+}
+
+export interface StoryForceResult {
+	stories: StoryForce[];
+	baseShearKips: number;
+	overturningMomentKipFt: number;
+}
+
+// MWFRS story forces for one principal direction:
+// F = (pW - pL) × tributary height × B of the story; shears and overturning accumulate from the roof down.
+// Stories must be listed in ascending order.
+export function calculateStoryForces(pressures: DirectionalStoryPressures): StoryForceResult {
+	const forces = pressures.stories.map((s) => ({
+		story: s.story,
+		elevationFt: s.elevationFt,
+		baseFt: s.elevationFt - s.tributaryHeightFt / 2,
+		netPressurePsf: s.windwardPsf - s.leewardPsf,
+		forceKips: (s.windwardPsf - s.leewardPsf) * s.tributaryHeightFt * s.widthFt / 1000,
+	}));
+
+	const stories: StoryForce[] = new Array(forces.length);
+	let shear = 0;
+	for (let i = forces.length - 1; i >= 0; i--) {
+		shear += forces[i].forceKips;
+		let overturning = 0;
+		for (let j = i; j < forces.length; j++) {
+			overturning += forces[j].forceKips * (forces[j].elevationFt - forces[i].baseFt);
+		}
+		stories[i] = {
+			story: forces[i].story,
+			elevationFt: roundTo(forces[i].elevationFt, 2),
+			netPressurePsf: roundTo(forces[i].netPressurePsf, 2),
+			forceKips: roundTo(forces[i].forceKips, 3),
+			shearKips: roundTo(shear, 2),
+			overturningKipFt: roundTo(overturning, 1),
+		};
+	}
+
+	return {
+		stories,
+		baseShearKips: roundTo(shear, 2),
+		overturningMomentKipFt: stories.length > 0 ? stories[0].overturningKipFt : 0,
+	};
+}
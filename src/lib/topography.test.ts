@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { calculateKzt, type TopographyInput } from "./topography";
+
+describe("calculateKzt", () => {
+	it("combines K1, K2 and K3 of Figure 26.8-1 for a ridge at the crest", () => {
+		// K1 = 1.45 × 0.25, K2 = 1, K3 = e^(-3 × 30/400) = 0.799; Kzt = (1 + 0.3625 × 0.799)^2 = 1.663
+		const ridge: TopographyInput = { feature: "ridge", hillHeightFt: 100, halfHillLengthFt: 400, crestDistanceFt: 0, side: "upwind", exposure: "C" };
+		expect(calculateKzt(ridge, 30)).toMatchObject({ k1: 0.363, k2: 1, k3: 0.799, kzt: 1.663, applies: true });
+	});
+
+	it("attenuates K2 with μ = 4 downwind of an escarpment", () => {
+		// K1 = 0.75 × 0.25, K2 = 1 - 200/(4 × 400) = 0.875, K3 = e^(-2.5 × 20/400) = 0.882
+		const escarpment: TopographyInput = { feature: "escarpment", hillHeightFt: 100, halfHillLengthFt: 400, crestDistanceFt: 200, side: "downwind", exposure: "B" };
+		expect(calculateKzt(escarpment, 20)).toMatchObject({ k1: 0.188, k2: 0.875, k3: 0.882, kzt: 1.311 });
+	});
+
+	it("takes H/Lh = 0.5 and Lh = 2H for features steeper than H/Lh = 0.5", () => {
+		// K1 = 1.05 × 0.5, K2 = 1 - 50/(1.5 × 200) = 0.833, K3 = e^(-4 × 10/200) = 0.819
+		const hill: TopographyInput = { feature: "hill", hillHeightFt: 100, halfHillLengthFt: 100, crestDistanceFt: 50, side: "upwind", exposure: "C" };
+		expect(calculateKzt(hill, 10)).toMatchObject({ k1: 0.525, k2: 0.833, k3: 0.819, kzt: 1.845 });
+	});
+
+	it("neglects the speed-up outside the Section 26.8.1 conditions", () => {
+		const low: TopographyInput = { feature: "ridge", hillHeightFt: 50, halfHillLengthFt: 100, crestDistanceFt: 0, side: "upwind", exposure: "B" };
+		expect(calculateKzt(low, 30)).toMatchObject({ kzt: 1.0, applies: false });
+		expect(calculateKzt({ ...low, exposure: "C" }, 30).applies).toBe(true);
+		expect(calculateKzt({ ...low, exposure: "C", halfHillLengthFt: 300 }, 30)).toMatchObject({ kzt: 1.0, applies: false });
+	});
+});
@@ -0,0 +1,127 @@
+import { formatTraceValue, substituteInBothSystems, type TraceEntry } from "./trace";
+import { roundTo, type ExposureCategory } from "./wind";
+
+export type TopographicFeature = "ridge" | "escarpment" | "hill";
+export type CrestSide = "upwind" | "downwind";
+
+export interface TopographyInput {
+	// 2-D ridge, 2-D escarpment or 3-D axisymmetric hill
+	feature: TopographicFeature;
+	// Height of hill or escarpment relative to upwind terrain H, ft
+	hillHeightFt: number;
+	// Horizontal distance upwind of crest to where the ground is half of H, Lh, ft
+	halfHillLengthFt: number;
+	// Horizontal distance from the crest to the building site x, ft
+	crestDistanceFt: number;
+	// Side of the crest the building is on
+	side: CrestSide;
+	exposure: ExposureCategory;
+}
+
+export interface KztResult {
+	kzt: number;
+	k1: number;
+	k2: number;
+	k3: number;
+	applies: boolean;
+	notes: string[];
+}
+
+// ASCE 7-22 Section 26.8 / Figure 26.8-1 topographic factor at height z above local ground:
+// Kzt = (1 + K1 * K2 * K3)^2
+export function calculateKzt(input: TopographyInput, heightFt: number): KztResult {
+	const { feature, hillHeightFt: H, crestDistanceFt, side, exposure } = input;
+	const notes: string[] = [];
+
+	// Section 26.8.1 conditions; otherwise the speed-up is neglected (Kzt = 1.0)
+	const minHeight = exposure === "B" ? 60 : 15;
+	if (!(H / input.halfHillLengthFt >= 0.2) || H < minHeight) {
+		notes.push(`Kzt = 1.0: requires H/Lh >= 0.2 and H >= ${minHeight} ft for Exposure ${exposure} (Section 26.8.1)`);
+		return { kzt: 1.0, k1: 0, k2: 0, k3: 0, applies: false, notes };
+	}
+	const { ratio, lh } = getEffectiveHill(input);
+	if (H / input.halfHillLengthFt > 0.5) {
+		notes.push("H/Lh > 0.5: K1 evaluated at H/Lh = 0.5 and Lh = 2H used for K2, K3");
+	}
+
+	const k1 = getK1Multiplier(feature, exposure) * ratio;
+	const mu = getMu(feature, side);
+	const k2 = Math.max(0, 1 - Math.abs(crestDistanceFt) / (mu * lh));
+	const z = Math.max(0, heightFt);
+	const k3 = Math.exp(-getGamma(feature) * z / lh);
+	const kzt = Math.pow(1 + k1 * k2 * k3, 2);
+	notes.push("Formula: Kzt = (1 + K1 * K2 * K3)^2");
+
+	return {
+		kzt: roundTo(kzt, 3),
+		k1: roundTo(k1, 3),
+		k2: roundTo(k2, 3),
+		k3: roundTo(k3, 3),
+		applies: true,
+		notes,
+	};
+}
+
+// Topographic multipliers behind Kzt at height z as trace entries; none for a site where Kzt = 1.0
+export function traceTopographicFactor(result: KztResult, input: TopographyInput, heightFt: number): TraceEntry[] {
+	if (!result.applies) return [];
+	const clause = "Section 26.8, Figure 26.8-1";
+	const { ratio, lh } = getEffectiveHill(input);
+	const mu = getMu(input.feature, input.side);
+	const gamma = getGamma(input.feature);
+	return [
+		{ symbol: "K1", description: "Shape and maximum speed-up factor", value: result.k1, quantity: null, equation: "K1 = (K1/(H/Lh)) × H/Lh", substituted: `K1 = ${getK1Multiplier(input.feature, input.exposure)} × ${roundTo(ratio, 3)}`, clause },
+		{
+			symbol: "K2",
+			description: "Reduction for distance from the crest",
+			value: result.k2,
+			quantity: null,
+			equation: "K2 = 1 - |x|/(μ Lh)",
+			...substituteInBothSystems((system) => `K2 = 1 - ${formatTraceValue(Math.abs(input.crestDistanceFt), "length", system)}/(${mu} × ${formatTraceValue(lh, "length", system)})`),
+			clause,
+		},
+		{
+			symbol: "K3",
+			description: "Reduction for height above local terrain",
+			value: result.k3,
+			quantity: null,
+			equation: "K3 = e^(-γ z/Lh)",
+			...substituteInBothSystems((system) => `K3 = e^(-${gamma} × ${formatTraceValue(Math.max(0, heightFt), "length", system)}/${formatTraceValue(lh, "length", system)})`),
+			clause,
+		},
+	];
+}
+
+// H/Lh for K1 and Lh for K2 and K3; Figure 26.8-1 note 4 takes H/Lh = 0.5 and Lh = 2H
+// for steeper features
+function getEffectiveHill(input: TopographyInput): { ratio: number; lh: number } {
+	const ratio = input.hillHeightFt / input.halfHillLengthFt;
+	return ratio > 0.5 ? { ratio: 0.5, lh: 2 * input.hillHeightFt } : { ratio, lh: input.halfHillLengthFt };
+}
+
+// K1/(H/Lh) from ASCE 7-22 Figure 26.8-1
+function getK1Multiplier(feature: TopographicFeature, exposure: ExposureCategory): number {
+	switch (feature) {
+		case "ridge": return { B: 1.30, C: 1.45, D: 1.55 }[exposure];
+		case "escarpment": return { B: 0.75, C: 0.85, D: 0.95 }[exposure];
+		case "hill": return { B: 0.95, C: 1.05, D: 1.15 }[exposure];
+	}
+}
+
+// Height attenuation factor gamma from ASCE 7-22 Figure 26.8-1
+function getGamma(feature: TopographicFeature): number {
+	switch (feature) {
+		case "ridge": return 3;
+		case "escarpment": return 2.5;
+		case "hill": return 4;
+	}
+}
+
+// Horizontal attenuation factor mu from ASCE 7-22 Figure 26.8-1
+function getMu(feature: TopographicFeature, side: CrestSide): number {
+	switch (feature) {
+		case "ridge": return 1.5;
+		case "escarpment": return side === "upwind" ? 1.5 : 4;
+		case "hill": return 1.5;
+	}
+}
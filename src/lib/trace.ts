@@ -0,0 +1,95 @@
+import { formatQuantity, getUnitLabel, type Quantity, type UnitSystem } from "./units";
+import type { AsceEdition } from "./wind";
+
+// One intermediate quantity of a calculation, as reported in derivations and exports
+export interface TraceEntry {
+	// Symbol, unique within a trace, e.g. "Kz" or "p (Windward wall, +GCpi)"
+	symbol: string;
+	description: string;
+	// Value in US customary engine units (mph, ft, psf)
+	value: number;
+	// Quantity used to convert and label the value; null for dimensionless factors
+	quantity: Quantity | null;
+	// Governing equation in US customary form
+	equation: string;
+	// SI form of the equation, when its constants differ
+	siEquation?: string;
+	// Equation with this calculation's values substituted, in US customary units; absent for
+	// inputs and tabulated values
+	substituted?: string;
+	// SI form of the substituted equation, when it has dimensioned values
+	siSubstituted?: string;
+	clause: string;
+}
+
+export interface TraceDifference {
+	symbol: string;
+	description: string;
+	// Value in each calculation, null when the quantity is absent from it
+	before: number | null;
+	after: number | null;
+}
+
+export type ClauseItem = "v" | "kz" | "kzt" | "ke" | "kd" | "qz" | "g" | "gcpi" | "cp" | "wall" | "roof" | "ccWall" | "ccRoof";
+
+// Clause references for each traced quantity; the chapter 26-27 numbering shifted between editions
+export function getClause(item: ClauseItem, edition: AsceEdition): string {
+	switch (item) {
+		case "v": return "Section 26.5, Figure 26.5-1";
+		case "kz": return edition === "7-10" ? "Section 27.3.1, Table 27.3-1" : "Section 26.10.1, Table 26.10-1";
+		case "kzt": return "Section 26.8, Eq. 26.8-1";
+		case "ke": return edition === "7-10" ? "Not in ASCE 7-10" : "Section 26.9, Table 26.9-1";
+		case "kd": return "Section 26.6, Table 26.6-1";
+		case "qz": return edition === "7-10" ? "Section 27.3.2, Eq. 27.3-1" : "Section 26.10.2, Eq. 26.10-1";
+		case "g": return edition === "7-10" ? "Section 26.9" : "Section 26.11";
+		case "gcpi": return edition === "7-10" ? "Section 26.11, Table 26.11-1" : "Section 26.13, Table 26.13-1";
+		case "cp": return edition === "7-10" ? "Figure 27.4-1" : "Figure 27.3-1";
+		case "wall": return edition === "7-10" ? "Section 27.4.1, Eq. 27.4-1" : "Section 27.3.1, Eq. 27.3-1";
+		case "roof": return edition === "7-10" ? "Section 27.4.1, Eq. 27.4-1, Figure 27.4-1" : "Section 27.3.1, Eq. 27.3-1, Figure 27.3-1";
+		case "ccWall": return edition === "7-10" ? "Figure 30.4-1" : "Figure 30.3-1";
+		case "ccRoof": return edition === "7-10" ? "Figure 30.4-2A" : "Figure 30.3-2A";
+	}
+}
+
+// Unit label for an entry in the display system, empty for dimensionless factors
+export function getTraceUnits(entry: TraceEntry, system: UnitSystem): string {
+	return entry.quantity ? getUnitLabel(entry.quantity, system) : "";
+}
+
+export function getTraceEquation(entry: TraceEntry, system: UnitSystem): string {
+	return system === "metric" && entry.siEquation ? entry.siEquation : entry.equation;
+}
+
+export function getTraceSubstitution(entry: TraceEntry, system: UnitSystem): string | undefined {
+	return system === "metric" && entry.siSubstituted ? entry.siSubstituted : entry.substituted;
+}
+
+// Substituted equation in both systems, written once for a given system
+export function substituteInBothSystems(substitute: (system: UnitSystem) => string): Pick<TraceEntry, "substituted" | "siSubstituted"> {
+	return { substituted: substitute("imperial"), siSubstituted: substitute("metric") };
+}
+
+// Engine value as written in a substituted equation: in the given system, rounded for
+// reporting, without trailing zeros
+export function formatTraceValue(value: number, quantity: Quantity, system: UnitSystem): string {
+	return String(Number(formatQuantity(value, quantity, system)));
+}
+
+// Quantities whose values differ between two traces by more than the tolerance, matched by
+// symbol, in the order they appear in the first trace followed by any added in the second
+export function diffTraces(before: TraceEntry[], after: TraceEntry[], tolerance = 1e-6): TraceDifference[] {
+	const afterBySymbol = new Map(after.map((entry) => [entry.symbol, entry]));
+	const beforeSymbols = new Set(before.map((entry) => entry.symbol));
+	const differences: TraceDifference[] = [];
+	for (const entry of before) {
+		const match = afterBySymbol.get(entry.symbol);
+		if (match && Math.abs(match.value - entry.value) <= tolerance) continue;
+		differences.push({ symbol: entry.symbol, description: entry.description, before: entry.value, after: match ? match.value : null });
+	}
+	for (const entry of after) {
+		if (!beforeSymbols.has(entry.symbol)) {
+			differences.push({ symbol: entry.symbol, description: entry.description, before: null, after: entry.value });
+		}
+	}
+	return differences;
+}
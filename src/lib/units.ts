@@ -0,0 +1,50 @@
+export type UnitSystem = "imperial" | "metric";
+export type Quantity = "speed" | "length" | "area" | "volume" | "pressure" | "force" | "moment";
+
+// The calculation engine works in US customary units (mph, ft, psf, kips); metric values are
+// converted at the input and output boundaries.
+// Metric value per US customary value for each quantity
+const METRIC_PER_IMPERIAL: Record<Quantity, number> = {
+	speed: 0.44704, // m/s per mph
+	length: 0.3048, // m per ft
+	area: 0.09290304, // m^2 per ft^2
+	volume: 0.028316846592, // m^3 per ft^3
+	pressure: 0.047880259, // kPa per psf
+	force: 4.4482216, // kN per kip
+	moment: 1.3558179, // kN-m per kip-ft
+};
+
+const UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+	imperial: { speed: "mph", length: "ft", area: "ft²", volume: "ft³", pressure: "psf", force: "k", moment: "k-ft" },
+	metric: { speed: "m/s", length: "m", area: "m²", volume: "m³", pressure: "kPa", force: "kN", moment: "kN-m" },
+};
+
+// Decimals used when reporting each quantity
+const UNIT_DECIMALS: Record<UnitSystem, Record<Quantity, number>> = {
+	imperial: { speed: 0, length: 2, area: 1, volume: 0, pressure: 2, force: 2, moment: 1 },
+	metric: { speed: 1, length: 2, area: 2, volume: 1, pressure: 3, force: 2, moment: 1 },
+};
+
+export function getUnitLabel(quantity: Quantity, system: UnitSystem): string {
+	return UNIT_LABELS[system][quantity];
+}
+
+export function convertQuantity(value: number, quantity: Quantity, from: UnitSystem, to: UnitSystem): number {
+	if (from === to) return value;
+	return to === "metric" ? value * METRIC_PER_IMPERIAL[quantity] : value / METRIC_PER_IMPERIAL[quantity];
+}
+
+// US customary engine value expressed in the display system
+export function fromImperial(value: number, quantity: Quantity, system: UnitSystem): number {
+	return convertQuantity(value, quantity, "imperial", system);
+}
+
+// Engine value expressed in the display system, rounded for reporting, without the unit
+export function formatQuantity(value: number, quantity: Quantity, system: UnitSystem): string {
+	return fromImperial(value, quantity, system).toFixed(UNIT_DECIMALS[system][quantity]);
+}
+
+// Engine value expressed in the display system, rounded for reporting, with the unit
+export function formatWithUnit(value: number, quantity: Quantity, system: UnitSystem): string {
+	return `${formatQuantity(value, quantity, system)} ${getUnitLabel(quantity, system)}`;
+}
@@ -0,0 +1,100 @@
+import { formatTraceValue, getClause, substituteInBothSystems, type TraceEntry } from "./trace";
+import { roundTo, type AsceEdition } from "./wind";
+
+export interface WallCp {
+	windward: number;
+	// Varies with L/B
+	leeward: number;
+	sidewall: number;
+}
+
+export interface WallPressureInput {
+	edition: AsceEdition;
+	// Velocity pressure at the wall evaluation height q (windward wall) and at the mean roof
+	// height qi (leeward and side walls, internal pressure), psf
+	qPsf: number;
+	qiPsf: number;
+	// Directionality factor Kd (1.0 for editions that already include it in qz)
+	directionalityFactor: number;
+	gustFactor: number;
+	gcpi: { positive: number; negative: number };
+	cp: WallCp;
+}
+
+export interface WallPressure {
+	surface: "Windward wall" | "Leeward wall" | "Side wall";
+	cp: number;
+	// Design pressures with +GCpi and -GCpi, psf
+	pressuresPsf: [number, number];
+}
+
+export interface WallPressureResult {
+	walls: WallPressure[];
+	trace: TraceEntry[];
+}
+
+// Wall pressure coefficients for the MWFRS (ASCE 7-22 Figure 27.3-1)
+export function calculateWallCp(lengthFt: number, widthFt: number): WallCp {
+	const lbRatio = lengthFt / widthFt;
+
+	// Leeward wall Cp varies with L/B ratio
+	let leewardCp: number;
+	if (lbRatio <= 1.0) {
+		leewardCp = -0.5;
+	} else if (lbRatio <= 2.0) {
+		// Interpolate between -0.5 (L/B=1) and -0.3 (L/B=2)
+		leewardCp = -0.5 + (lbRatio - 1.0) * (-0.3 - (-0.5)) / (2.0 - 1.0);
+	} else if (lbRatio <= 4.0) {
+		// Interpolate between -0.3 (L/B=2) and -0.2 (L/B=4)
+		leewardCp = -0.3 + (lbRatio - 2.0) * (-0.2 - (-0.3)) / (4.0 - 2.0);
+	} else {
+		leewardCp = -0.2;
+	}
+
+	return {
+		windward: 0.8,
+		leeward: leewardCp,
+		sidewall: -0.7,
+	};
+}
+
+// Wall Pressure = (q × Kd × G × Cp) - (qi × Kd × GCpi) (Eq. 27.3-1)
+// where q = qz at the wall evaluation height for the windward wall and qh for the leeward and
+// side walls, and qi = velocity pressure at mean roof height
+export function calculateWallPressures(input: WallPressureInput): WallPressureResult {
+	const { edition, qPsf: q, qiPsf: qi, directionalityFactor: kd, gustFactor, gcpi, cp } = input;
+	const walls: WallPressure[] = [
+		{ surface: "Windward wall", cp: cp.windward, q },
+		{ surface: "Leeward wall", cp: cp.leeward, q: qi },
+		{ surface: "Side wall", cp: cp.sidewall, q: qi },
+	].map((wall) => ({
+		surface: wall.surface as WallPressure["surface"],
+		cp: wall.cp,
+		pressuresPsf: [(wall.q * kd * gustFactor * wall.cp) - (qi * kd * gcpi.positive), (wall.q * kd * gustFactor * wall.cp) - (qi * kd * gcpi.negative)],
+	}));
+
+	const equation = edition === "7-22" ? "p = q Kd G Cp - qi Kd (GCpi)" : "p = q G Cp - qi (GCpi)";
+	const kdTerm = edition === "7-22" ? ` × ${kd}` : "";
+	const substitute = (wallQ: number, wallCp: number, gcpiValue: number) => substituteInBothSystems((system) => {
+		const pressure = (value: number) => formatTraceValue(value, "pressure", system);
+		return `p = ${pressure(wallQ)}${kdTerm} × ${gustFactor} × ${roundTo(wallCp, 3)} - ${pressure(qi)}${kdTerm} × (${gcpiValue})`;
+	});
+	const trace: TraceEntry[] = [
+		{ symbol: "q (Windward wall)", description: "Velocity pressure for the windward wall", value: q, quantity: "pressure", equation: "qz at the wall evaluation height", clause: getClause("qz", edition) },
+		{ symbol: "q (Leeward and side walls)", description: "Velocity pressure for the leeward and side walls", value: qi, quantity: "pressure", equation: "q = qh", clause: getClause("wall", edition) },
+		{ symbol: "qi", description: "Velocity pressure for internal pressure", value: qi, quantity: "pressure", equation: "qi = qh", clause: getClause("wall", edition) },
+	];
+	trace.push(...walls.flatMap((wall) => [
+		{ symbol: `Cp (${wall.surface})`, description: `${wall.surface} pressure coefficient`, value: roundTo(wall.cp, 3), quantity: null, equation: wall.surface === "Leeward wall" ? "Interpolated on L/B" : "Tabulated", clause: getClause("cp", edition) },
+		...(["+", "-"] as const).map((sign, idx) => ({
+			symbol: `p (${wall.surface}, ${sign}GCpi)`,
+			description: `${wall.surface} design pressure with ${sign}GCpi`,
+			value: roundTo(wall.pressuresPsf[idx], 3),
+			quantity: "pressure" as const,
+			equation,
+			...substitute(wall.surface === "Windward wall" ? q : qi, wall.cp, [gcpi.positive, gcpi.negative][idx]),
+			clause: getClause("wall", edition),
+		})),
+	]));
+	return { walls, trace };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { getKz, getZg, type AsceEdition, type ExposureCategory } from "./wind";
+
+describe("getKz", () => {
+	// Heights between 500 ft and zg still follow the power law; above zg Kz stays at c
+	const cases: Array<{ edition: AsceEdition; exposure: ExposureCategory; heightFt: number; expected: number; atZg: number }> = [
+		// 2.01 (600/1200)^(2/7.0) = 1.649
+		{ edition: "7-10", exposure: "B", heightFt: 600, expected: 1.649, atZg: 2.01 },
+		// 2.01 (600/900)^(2/9.5) = 1.846
+		{ edition: "7-16", exposure: "C", heightFt: 600, expected: 1.846, atZg: 2.01 },
+		// 2.41 (1000/3280)^(2/7.5) = 1.756
+		{ edition: "7-22", exposure: "B", heightFt: 1000, expected: 1.756, atZg: 2.41 },
+	];
+
+	it.each(cases)("follows the power law above 500 ft up to zg in ASCE $edition", ({ edition, exposure, heightFt, expected }) => {
+		expect(getKz(exposure, heightFt, edition)).toBeCloseTo(expected, 3);
+	});
+
+	it.each(cases)("holds Kz at its zg value above zg in ASCE $edition", ({ edition, atZg }) => {
+		for (const exposure of ["B", "C", "D"] as const) {
+			const zg = getZg(exposure, edition);
+			expect(getKz(exposure, zg + 100, edition)).toBe(getKz(exposure, zg, edition));
+			expect(getKz(exposure, zg, edition)).toBeCloseTo(atZg, 3);
+		}
+	});
+
+	it("takes Kz at 15 ft below it", () => {
+		expect(getKz("B", 5, "7-22")).toBe(getKz("B", 15, "7-22"));
+	});
+});
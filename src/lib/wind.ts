@@ -1,8 +1,12 @@
+import { formatTraceValue, getClause, substituteInBothSystems, type TraceEntry } from "./trace";
+import { convertQuantity, getUnitLabel, type UnitSystem } from "./units";
+
 export type ExposureCategory = "B" | "C" | "D";
 export type RiskCategory = "I" | "II" | "III" | "IV";
+export type AsceEdition = "7-10" | "7-16" | "7-22";
 
 export interface WindInput {
-	// Basic wind speed at 3-sec gust, mph
+	// Basic wind speed at 3-sec gust, mph (read from the Risk Category map)
 	windSpeedMph: number;
 	// Exposure category
 	exposure: ExposureCategory;
@@ -12,57 +16,171 @@ export interface WindInput {
 	directionalityFactor?: number; // default 0.85 for MWFRS
 	// Topographic factor Kzt
 	topographicFactor?: number; // default 1.0 typically
-	// Risk Category (determines I factor)
+	// K1, K2 and K3 behind Kzt when a topographic feature applies, for the trace
+	topographicMultipliers?: { k1: number; k2: number; k3: number };
+	// Risk Category (selects the wind speed map; no importance factor since ASCE 7-10)
 	riskCategory?: RiskCategory; // default "II"
 	// Optional manual override for Kz
 	overrideKz?: number;
-	// Optional Kh factor (multiplier), default 1.0
-	khFactor?: number;
+	// Ground elevation factor Ke, default 1.0 (not used by ASCE 7-10)
+	groundElevationFactor?: number;
+	// Code edition, default "7-22"
+	edition?: AsceEdition;
+	// System qz is evaluated in: V in mph, or the SI equation with V in m/s. Default "imperial";
+	// the result is in psf either way.
+	unitSystem?: UnitSystem;
 }
 
 export interface WindResult {
 	velocityPressurePsf: number; // qz, psf
 	pressureNotes: string[];
+	// V, Kz, Kzt, Kd, Ke and qz with their equations and clauses
+	trace: TraceEntry[];
 }
 
-// ASCE 7-22 velocity pressure at height z (qz) in psf:
-// qz = 0.00256 * Kz * Kzt * Ke * V^2 * I
+export const ASCE_EDITIONS: AsceEdition[] = ["7-10", "7-16", "7-22"];
+
+// Height below which Kz is taken at its value at 15 ft. The power law holds up to the gradient
+// height zg of the exposure and edition, above which Kz stays at its zg value.
+export const KZ_MIN_HEIGHT_FT = 15;
+
+// Velocity pressure at height z (qz) in psf, by edition:
+//   ASCE 7-10: qz = 0.00256 * Kz * Kzt * Kd * V^2
+//   ASCE 7-16: qz = 0.00256 * Kz * Kzt * Kd * Ke * V^2
+//   ASCE 7-22: qz = 0.00256 * Kz * Kzt * Ke * V^2 (Kd applied in the design pressure)
+// In SI, qz = 0.613 * ... * V^2 in N/m^2 with V in m/s.
 // This is a simplified educational calculator, not a substitute for engineering judgment.
 export function calculateVelocityPressure(input: WindInput): WindResult {
 	const { windSpeedMph, exposure, heightFt } = input;
+	const edition = input.edition ?? "7-22";
 	const kd = input.directionalityFactor ?? 0.85;
 	const kzt = input.topographicFactor ?? 1.0;
+	const multipliers = input.topographicMultipliers;
 	const riskCategory = input.riskCategory ?? "II";
-	const importance = getImportanceFactor(riskCategory);
-	const computedKz = getKz(exposure, heightFt);
+	const computedKz = getKz(exposure, heightFt, edition);
 	const kz = Number.isFinite(input.overrideKz ?? NaN) ? (input.overrideKz as number) : computedKz;
-	const kh = input.khFactor ?? 1.0;
-	// ASCE 7-22: qz = 0.00256 * Kz * Kzt * Ke * V^2 (Kd moved to design pressure)
-	const qzBase = 0.00256 * kz * kzt * kh * windSpeedMph * windSpeedMph;
-	const qz = qzBase * importance;
+	const ke = edition === "7-10" ? 1.0 : input.groundElevationFactor ?? 1.0;
+	const kdInQz = edition === "7-22" ? 1.0 : kd;
+	const unitSystem = input.unitSystem ?? "imperial";
+	const windSpeed = convertQuantity(windSpeedMph, "speed", "imperial", unitSystem);
+	const qz = unitSystem === "metric"
+		? convertQuantity(0.613 * kz * kzt * kdInQz * ke * windSpeed * windSpeed / 1000, "pressure", "metric", "imperial")
+		: 0.00256 * kz * kzt * kdInQz * ke * windSpeed * windSpeed;
 	const pressureNotes: string[] = [];
-	pressureNotes.push(`Risk Cat ${riskCategory}: Kd=${kd.toFixed(2)}, Kzt=${kzt.toFixed(2)}, I=${importance.toFixed(2)}, Kz=${kz.toFixed(3)}, Kh=${kh.toFixed(2)}`);
+	pressureNotes.push(`ASCE ${edition}, Risk Cat ${riskCategory}: Kd=${kd.toFixed(2)}, Kzt=${kzt.toFixed(2)}, Kz=${kz.toFixed(3)}, Ke=${ke.toFixed(2)}`);
 	if (kz !== computedKz) {
 		pressureNotes.push(`Manual Kz override used (auto was ${computedKz.toFixed(3)})`);
+	} else if (heightFt < KZ_MIN_HEIGHT_FT) {
+		pressureNotes.push(`Kz evaluated at z = ${KZ_MIN_HEIGHT_FT} ft, the lower limit, for z = ${roundTo(heightFt, 2)} ft`);
+	} else if (heightFt > getZg(exposure, edition)) {
+		pressureNotes.push(`Kz evaluated at z = zg = ${getZg(exposure, edition)} ft, the top of the power law, for z = ${roundTo(heightFt, 2)} ft`);
+	}
+	pressureNotes.push(`Formula: ${getVelocityPressureFormula(edition, unitSystem)} (${getUnitLabel("pressure", unitSystem)}, V in ${getUnitLabel("speed", unitSystem)})`);
+	pressureNotes.push(`V taken from the Risk Category ${riskCategory} map; no importance factor applies`);
+	const trace: TraceEntry[] = [
+		{ symbol: "z", description: "Height above ground", value: heightFt, quantity: "length", equation: "Input", clause: getClause("kz", edition) },
+		{ symbol: "V", description: `Basic wind speed, Risk Category ${riskCategory}`, value: windSpeedMph, quantity: "speed", equation: "Input", clause: getClause("v", edition) },
+	];
+	if (kz === computedKz) {
+		const kzCoefficient = edition === "7-22" ? 2.41 : 2.01;
+		const alpha = getAlpha(exposure, edition);
+		const zg = getZg(exposure, edition);
+		const kzHeight = Math.max(KZ_MIN_HEIGHT_FT, Math.min(heightFt, zg));
+		trace.push(
+			{ symbol: "α", description: `Terrain exponent, Exposure ${exposure}`, value: alpha, quantity: null, equation: "Tabulated", clause: getClause("kz", edition) },
+			{ symbol: "zg", description: `Gradient height, Exposure ${exposure}`, value: zg, quantity: "length", equation: "Tabulated", clause: getClause("kz", edition) },
+			{
+				symbol: "Kz",
+				description: "Velocity pressure exposure coefficient",
+				value: kz,
+				quantity: null,
+				equation: `Kz = ${kzCoefficient} (z/zg)^(2/α), 15 ft <= z <= zg`,
+				siEquation: `Kz = ${kzCoefficient} (z/zg)^(2/α), 4.6 m <= z <= zg`,
+				...substituteInBothSystems((system) => `Kz = ${kzCoefficient} (${formatTraceValue(kzHeight, "length", system)}/${formatTraceValue(zg, "length", system)})^(2/${alpha})`),
+				clause: getClause("kz", edition),
+			},
+		);
+	} else {
+		trace.push({ symbol: "Kz", description: "Velocity pressure exposure coefficient", value: kz, quantity: null, equation: `Entered manually (computed ${computedKz.toFixed(3)})`, clause: getClause("kz", edition) });
+	}
+	trace.push(
+		{
+			symbol: "Kzt",
+			description: "Topographic factor",
+			value: kzt,
+			quantity: null,
+			equation: kzt === 1.0 ? "Kzt = 1.0" : "Kzt = (1 + K1 K2 K3)^2",
+			substituted: multipliers ? `Kzt = (1 + ${multipliers.k1} × ${multipliers.k2} × ${multipliers.k3})^2` : undefined,
+			clause: getClause("kzt", edition),
+		},
+		{ symbol: "Kd", description: "Wind directionality factor", value: kd, quantity: null, equation: edition === "7-22" ? "Applied in the design pressure equations" : "Applied in qz", clause: getClause("kd", edition) },
+	);
+	if (edition !== "7-10") {
+		trace.push({ symbol: "Ke", description: "Ground elevation factor", value: ke, quantity: null, equation: ke === 1.0 ? "Ke = 1.0" : "Ke = e^(-0.0000362 zg), zg = ground elevation, ft", siEquation: ke === 1.0 ? "Ke = 1.0" : "Ke = e^(-0.000119 zg), zg = ground elevation, m", clause: getClause("ke", edition) });
 	}
-	pressureNotes.push("Formula: qz = 0.00256 * Kz * Kzt * Ke * V^2 * I (psf)");
+	// Factors of qz in the order of the edition's equation
+	const qzFactors = [kz, kzt, ...(edition === "7-22" ? [] : [kd]), ...(edition === "7-10" ? [] : [ke])].join(" × ");
+	trace.push({
+		symbol: "qz",
+		description: "Velocity pressure at z",
+		value: roundTo(qz, 3),
+		quantity: "pressure",
+		equation: getVelocityPressureFormula(edition),
+		siEquation: getVelocityPressureFormula(edition, "metric"),
+		...substituteInBothSystems((system) => `qz = ${system === "metric" ? "0.000613" : "0.00256"} × ${qzFactors} × ${formatTraceValue(windSpeedMph, "speed", system)}^2`),
+		clause: getClause("qz", edition),
+	});
 	return {
 		velocityPressurePsf: roundTo(qz, 3),
 		pressureNotes,
+		trace,
 	};
 }
 
-// ASCE 7-22 Table 26.10-1 Kz values with proper alpha coefficients
-function getKz(exposure: ExposureCategory, heightFt: number): number {
-	const z = Math.max(15, Math.min(heightFt, 500)); // ASCE 7-22 limits
-	const alpha = getAlpha(exposure);
-	const zg = getZg(exposure);
-	const kz = 2.01 * Math.pow(z / zg, 2 / alpha);
+// qz equation for an edition, in psf with V in mph, or in kPa with V in m/s: the SI constant 0.613
+// gives N/m^2, so 0.000613 gives the kPa shown for metric results
+export function getVelocityPressureFormula(edition: AsceEdition, unitSystem: UnitSystem = "imperial"): string {
+	const constant = unitSystem === "metric" ? "0.000613" : "0.00256";
+	switch (edition) {
+		case "7-10": return `qz = ${constant} * Kz * Kzt * Kd * V^2`;
+		case "7-16": return `qz = ${constant} * Kz * Kzt * Kd * Ke * V^2`;
+		case "7-22": return `qz = ${constant} * Kz * Kzt * Ke * V^2`;
+	}
+}
+
+// Kd multiplier that belongs in the design pressure equations. ASCE 7-22 moved Kd out of qz
+// into p = q * Kd * (GCp - GCpi); earlier editions already include it in qz.
+export function getPressureDirectionalityFactor(edition: AsceEdition, kd: number): number {
+	return edition === "7-22" ? kd : 1.0;
+}
+
+// Ground elevation factor Ke, ASCE 7-16/7-22 Table 26.9-1 note 2: Ke = e^(-0.0000362 zg)
+// with zg the ground elevation above sea level in ft. Sites below sea level use Ke = 1.0.
+export function calculateGroundElevationFactor(groundElevationFt: number): number {
+	const zg = Math.max(0, groundElevationFt);
+	return roundTo(Math.exp(-0.0000362 * zg), 3);
+}
+
+// Velocity pressure exposure coefficient Kz, ASCE 7-10/7-16 Table 27.3-1 and ASCE 7-22 Table 26.10-1:
+// Kz = c * (z/zg)^(2/alpha) for 15 ft <= z <= zg (c = 2.01 before 7-22, 2.41 in 7-22)
+export function getKz(exposure: ExposureCategory, heightFt: number, edition: AsceEdition = "7-22"): number {
+	const alpha = getAlpha(exposure, edition);
+	const zg = getZg(exposure, edition);
+	const z = Math.max(KZ_MIN_HEIGHT_FT, Math.min(heightFt, zg));
+	const coefficient = edition === "7-22" ? 2.41 : 2.01;
+	const kz = coefficient * Math.pow(z / zg, 2 / alpha);
 	return roundTo(kz, 3);
 }
 
-// Alpha coefficients from ASCE 7-22 Table 26.10-1
-function getAlpha(exposure: ExposureCategory): number {
+// Alpha coefficients from ASCE 7-10 Table 26.9-1 and ASCE 7-16/7-22 Table 26.11-1
+export function getAlpha(exposure: ExposureCategory, edition: AsceEdition = "7-22"): number {
+	if (edition === "7-22") {
+		switch (exposure) {
+			case "B": return 7.5;
+			case "C": return 9.8;
+			case "D": return 11.5;
+		}
+	}
 	switch (exposure) {
 		case "B": return 7.0;
 		case "C": return 9.5;
@@ -70,8 +188,15 @@ function getAlpha(exposure: ExposureCategory): number {
 	}
 }
 
-// Zg values from ASCE 7-22 Table 26.10-1
-function getZg(exposure: ExposureCategory): number {
+// Zg values from ASCE 7-10 Table 26.9-1 and ASCE 7-16/7-22 Table 26.11-1
+export function getZg(exposure: ExposureCategory, edition: AsceEdition = "7-22"): number {
+	if (edition === "7-22") {
+		switch (exposure) {
+			case "B": return 3280;
+			case "C": return 2460;
+			case "D": return 1935;
+		}
+	}
 	switch (exposure) {
 		case "B": return 1200;
 		case "C": return 900;
@@ -79,23 +204,7 @@ function getZg(exposure: ExposureCategory): number {
 	}
 }
 
-// Importance factors from ASCE 7-22 Table 1.5-2
-function getImportanceFactor(riskCategory: RiskCategory): number {
-	switch (riskCategory) {
-		case "I": return 0.87;
-		case "II": return 1.0;
-		case "III": return 1.15;
-		case "IV": return 1.15;
-		default: return 1.0;
-	}
-}
-
-function roundTo(value: number, decimals: number): number {
+export function roundTo(value: number, decimals: number): number {
 	const factor = Math.pow(10, decimals);
 	return Math.round(value * factor) / factor;
-}
-
-// Gcpi values for enclosed buildings (ASCE 7-22 Table 26.11-1)
-export function getGcpiEnclosed(): { positive: number; negative: number } {
-	return { positive: 0.18, negative: -0.18 };
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+import type { ExportTable } from "./export";
+
+// Minimal Office Open XML workbook writer: one worksheet per table with a bold, frozen header
+// row, strings stored inline and entries packed in an uncompressed ZIP archive. Enough for
+// Excel, LibreOffice and Google Sheets without pulling a spreadsheet library into the bundle.
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const MAX_SHEET_NAME_LENGTH = 31;
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+export function createXlsxWorkbook(tables: ExportTable[]): Uint8Array<ArrayBuffer> {
+	const names = getSheetNames(tables);
+	const sheetIds = tables.map((_, idx) => idx + 1);
+	const files: Array<[string, string]> = [
+		["[Content_Types].xml", XML_HEADER +
+			'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+			'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+			'<Default Extension="xml" ContentType="application/xml"/>' +
+			'<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+			'<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+			sheetIds.map((id) => `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("") +
+			"</Types>"],
+		["_rels/.rels", XML_HEADER +
+			`<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`],
+		["xl/workbook.xml", XML_HEADER +
+			`<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+			sheetIds.map((id, idx) => `<sheet name="${escapeXml(names[idx])}" sheetId="${id}" r:id="rId${id}"/>`).join("") +
+			"</sheets></workbook>"],
+		["xl/_rels/workbook.xml.rels", XML_HEADER +
+			`<Relationships xmlns="${PACKAGE_REL_NS}">` +
+			sheetIds.map((id) => `<Relationship Id="rId${id}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${id}.xml"/>`).join("") +
+			`<Relationship Id="rId${tables.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+			"</Relationships>"],
+		["xl/styles.xml", XML_HEADER +
+			`<styleSheet xmlns="${MAIN_NS}">` +
+			'<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+			'<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+			'<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+			'<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+			'<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+			"</styleSheet>"],
+		...tables.map((table, idx): [string, string] => [`xl/worksheets/sheet${sheetIds[idx]}.xml`, formatWorksheet(table)]),
+	];
+	const encoder = new TextEncoder();
+	return createZip(files.map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
+
+function formatWorksheet(table: ExportTable): string {
+	// Style 1 is the bold header font
+	const rows = [table.headers, ...table.rows].map((row, rowIdx) => {
+		const r = rowIdx + 1;
+		const cells = row.map((value, colIdx) => {
+			const ref = `${getColumnName(colIdx)}${r}`;
+			const style = rowIdx === 0 ? ' s="1"' : "";
+			if (typeof value === "number" && isFinite(value)) return `<c r="${ref}"${style}><v>${value}</v></c>`;
+			if (value === "") return "";
+			return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+		});
+		return `<row r="${r}">${cells.join("")}</row>`;
+	});
+	return XML_HEADER +
+		`<worksheet xmlns="${MAIN_NS}">` +
+		'<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+		`<sheetData>${rows.join("")}</sheetData>` +
+		"</worksheet>";
+}
+
+// Valid, unique sheet names
+function getSheetNames(tables: ExportTable[]): string[] {
+	const used = new Set<string>();
+	return tables.map((table, idx) => {
+		let name = table.name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${idx + 1}`;
+		for (let n = 2; used.has(name.toLowerCase()); n++) {
+			const suffix = ` (${n})`;
+			name = name.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+		}
+		used.add(name.toLowerCase());
+		return name;
+	});
+}
+
+// Zero-based column index to A, B, ... Z, AA, AB, ...
+function getColumnName(index: number): string {
+	let name = "";
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+function escapeXml(text: string): string {
+	// Control characters other than tab and line breaks are not allowed in XML
+	const allowed = Array.from(text).filter((ch) => ch >= " " || ch === "\t" || ch === "\n" || ch === "\r").join("");
+	return allowed
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// ZIP archive with every entry stored uncompressed (method 0) and UTF-8 names
+function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+	const encoder = new TextEncoder();
+	const names = entries.map((entry) => encoder.encode(entry.name));
+	const localSize = entries.reduce((sum, entry, idx) => sum + 30 + names[idx].length + entry.data.length, 0);
+	const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+	const bytes = new Uint8Array(localSize + centralSize + 22);
+	const view = new DataView(bytes.buffer);
+	// DOS date 1980-01-01 00:00, so identical inputs give identical files
+	const dosTime = 0;
+	const dosDate = (1 << 5) | 1;
+	const utf8Flag = 0x0800;
+
+	let offset = 0;
+	const offsets: number[] = [];
+	const crcs = entries.map((entry) => crc32(entry.data));
+	entries.forEach((entry, idx) => {
+		offsets.push(offset);
+		view.setUint32(offset, 0x04034b50, true);
+		view.setUint16(offset + 4, 20, true);
+		view.setUint16(offset + 6, utf8Flag, true);
+		view.setUint16(offset + 8, 0, true);
+		view.setUint16(offset + 10, dosTime, true);
+		view.setUint16(offset + 12, dosDate, true);
+		view.setUint32(offset + 14, crcs[idx], true);
+		view.setUint32(offset + 18, entry.data.length, true);
+		view.setUint32(offset + 22, entry.data.length, true);
+		view.setUint16(offset + 26, names[idx].length, true);
+		view.setUint16(offset + 28, 0, true);
+		bytes.set(names[idx], offset + 30);
+		bytes.set(entry.data, offset + 30 + names[idx].length);
+		offset += 30 + names[idx].length + entry.data.length;
+	});
+
+	const centralOffset = offset;
+	entries.forEach((entry, idx) => {
+		view.setUint32(offset, 0x02014b50, true);
+		view.setUint16(offset + 4, 20, true);
+		view.setUint16(offset + 6, 20, true);
+		view.setUint16(offset + 8, utf8Flag, true);
+		view.setUint16(offset + 10, 0, true);
+		view.setUint16(offset + 12, dosTime, true);
+		view.setUint16(offset + 14, dosDate, true);
+		view.setUint32(offset + 16, crcs[idx], true);
+		view.setUint32(offset + 20, entry.data.length, true);
+		view.setUint32(offset + 24, entry.data.length, true);
+		view.setUint16(offset + 28, names[idx].length, true);
+		// Extra field, comment, disk number, attributes: all zero
+		view.setUint32(offset + 42, offsets[idx], true);
+		bytes.set(names[idx], offset + 46);
+		offset += 46 + names[idx].length;
+	});
+
+	view.setUint32(offset, 0x06054b50, true);
+	view.setUint16(offset + 8, entries.length, true);
+	view.setUint16(offset + 10, entries.length, true);
+	view.setUint32(offset + 12, offset - centralOffset, true);
+	view.setUint32(offset + 16, centralOffset, true);
+	return bytes;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}